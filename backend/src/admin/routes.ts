@@ -0,0 +1,145 @@
+import express, { type NextFunction, type Request, type Response } from "express";
+import cors from "cors";
+import { timingSafeEqual } from "crypto";
+import { z } from "zod";
+import type { ReportStore } from "../moderation/ReportStore";
+import type { BanList } from "../moderation/BanList";
+import type { NewBanRequest, ReportFilter } from "../type";
+
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN || "";
+
+interface AdminDeps {
+  reports: ReportStore;
+  bans: BanList;
+  /** Called after a ban is added or lifted (kicks matching users, syncs instances). */
+  onBansChanged: () => void;
+}
+
+// Errors carry a status for the global error handler in index.ts
+function httpError(status: number, message: string) {
+  return Object.assign(new Error(message), { status });
+}
+
+// Express 4 does not forward rejected promises to the error handler
+const route =
+  (fn: (req: Request, res: Response) => Promise<unknown>) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    fn(req, res).catch(next);
+  };
+
+function parse<T>(schema: z.ZodType<T>, input: unknown): T {
+  const parsed = schema.safeParse(input);
+  if (!parsed.success) {
+    const first = parsed.error.issues[0];
+    throw httpError(400, `Invalid ${first?.path.map(String).join(".") || "request"}: ${first?.message}`);
+  }
+  return parsed.data;
+}
+
+// Bearer token check; the whole API is disabled when ADMIN_TOKEN is unset
+function requireAdmin(req: Request, _res: Response, next: NextFunction) {
+  if (!ADMIN_TOKEN) return next(httpError(503, "Admin API is disabled (ADMIN_TOKEN not set)"));
+
+  const header = req.get("authorization") || "";
+  const token = header.startsWith("Bearer ") ? header.slice(7) : "";
+  const a = Buffer.from(token);
+  const b = Buffer.from(ADMIN_TOKEN);
+  if (a.length !== b.length || !timingSafeEqual(a, b)) {
+    return next(httpError(401, "Unauthorized"));
+  }
+  next();
+}
+
+// ---------- Request schemas ----------
+
+const listQuery = z.object({
+  status: z.enum(["open", "resolved"]).optional(),
+  subject: z.string().trim().min(1).optional(),
+  limit: z.coerce.number().int().positive().optional(),
+  before: z.coerce.number().int().positive().optional(),
+}) satisfies z.ZodType<ReportFilter>;
+
+const resolveBody = z.object({
+  action: z.enum(["dismissed", "banned"]),
+  note: z.string().trim().max(1000).optional(),
+});
+
+const banBody = z.object({
+  kind: z.enum(["user", "ip"]),
+  value: z.string().trim().min(1).max(256),
+  reason: z.string().trim().max(500).optional(),
+  reportId: z.string().optional(),
+  durationMinutes: z.number().int().positive().nullable().optional(),
+}) satisfies z.ZodType<NewBanRequest>;
+
+/** Moderator REST API, mounted under /admin. */
+export function createAdminRouter({ reports, bans, onBansChanged }: AdminDeps) {
+  const router = express.Router();
+
+  router.use(cors({ origin: process.env.CORS_ORIGIN || "*" }));
+  router.use(express.json({ limit: "32kb" }));
+  router.use(requireAdmin);
+
+  // Reports
+  router.get(
+    "/reports",
+    route(async (req, res) => {
+      res.json({ reports: await reports.list(parse(listQuery, req.query)) });
+    })
+  );
+
+  router.get(
+    "/reports/:id",
+    route(async (req, res) => {
+      const report = await reports.get(req.params.id);
+      if (!report) throw httpError(404, "Report not found");
+      res.json({ report });
+    })
+  );
+
+  router.post(
+    "/reports/:id/resolve",
+    route(async (req, res) => {
+      const report = await reports.resolve(req.params.id, parse(resolveBody, req.body));
+      if (!report) throw httpError(404, "Report not found");
+      res.json({ report });
+    })
+  );
+
+  // Bans
+  router.get(
+    "/bans",
+    route(async (_req, res) => {
+      res.json({ bans: bans.active() });
+    })
+  );
+
+  router.post(
+    "/bans",
+    route(async (req, res) => {
+      const body = parse(banBody, req.body);
+      if (body.reportId && !(await reports.get(body.reportId))) {
+        throw httpError(404, "Report not found");
+      }
+
+      const ban = await bans.add(body);
+      // Kick anyone the new ban matches, including people mid-call
+      onBansChanged();
+      if (body.reportId) {
+        await reports.resolve(body.reportId, { action: "banned", note: body.reason });
+      }
+      res.status(201).json({ ban });
+    })
+  );
+
+  router.delete(
+    "/bans/:id",
+    route(async (req, res) => {
+      if (!(await bans.lift(req.params.id))) throw httpError(404, "Ban not found");
+      onBansChanged();
+      res.status(204).end();
+    })
+  );
+
+  return router;
+}
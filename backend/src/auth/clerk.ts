@@ -0,0 +1,28 @@
+import { verifyToken } from "@clerk/express";
+
+// Sign-in is available when the backend has a Clerk secret key; without one
+// every connection is a guest.
+export const clerkEnabled = !!process.env.CLERK_SECRET_KEY;
+
+// Guests (no session token) may connect unless ALLOW_GUESTS=false
+export const guestsAllowed = !clerkEnabled || process.env.ALLOW_GUESTS !== "false";
+
+// Frontend origins allowed to present tokens (`azp` claim), comma separated
+const authorizedParties = process.env.CLERK_AUTHORIZED_PARTIES?.split(",")
+  .map((s) => s.trim())
+  .filter(Boolean);
+
+/** Clerk user id of a session token, or null if it does not verify. */
+export async function verifySessionToken(token: string): Promise<string | null> {
+  if (!clerkEnabled) return null;
+  try {
+    const claims = await verifyToken(token, {
+      secretKey: process.env.CLERK_SECRET_KEY,
+      ...(authorizedParties?.length ? { authorizedParties } : {}),
+    });
+    return claims.sub || null;
+  } catch (e: any) {
+    console.warn("[auth] session token rejected:", e?.reason || e?.message || e);
+    return null;
+  }
+}
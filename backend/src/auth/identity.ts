@@ -0,0 +1,9 @@
+import type { UserSnapshot } from "../type";
+
+/**
+ * Stable key that bans, blocks and reports are tied to: the signed-in user id,
+ * or the socket id for guests (who get a new one on every connection).
+ */
+export function identityOf(who: Pick<UserSnapshot, "socketId" | "userId">): string {
+  return who.userId || who.socketId;
+}
@@ -3,8 +3,9 @@ import { appRedis } from "./redis";
 const TTL_SEC = Number(process.env.SOCKET_PRESENCE_TTL || 60);
 
 // Key helpers
+export const PRESENCE_PREFIX = "socket:";
 const K = {
-  socketMeta: (sid: string) => `socket:${sid}`,      // string => JSON meta (name, ts, ip, etc)
+  socketMeta: (sid: string) => `${PRESENCE_PREFIX}${sid}`, // string => JSON meta (name, ts, ip, etc)
   onlineSet:                 "sockets:online",       // Set of SIDs
 };
 
@@ -35,6 +36,11 @@ export async function presenceDown(socketId: string) {
     .exec();
 }
 
+// True while the socket's presence key has not expired
+export async function isPresent(socketId: string): Promise<boolean> {
+  return (await appRedis.exists(K.socketMeta(socketId))) === 1;
+}
+
 // Introspection (optional)
 export async function getOnlineSockets(): Promise<string[]> {
   return appRedis.smembers(K.onlineSet);
@@ -2,8 +2,12 @@ import Redis from "ioredis";
 
 const REDIS_URL = process.env.REDIS_URL || "redis://127.0.0.1:6379";
 
-export const appRedis = new Redis(REDIS_URL);
-export const pubClient = new Redis(REDIS_URL);
+// Redis is opt-in: without REDIS_URL, state stays in process memory (dev).
+// Clients connect lazily on first command, so importing this module is free.
+export const redisEnabled = !!process.env.REDIS_URL;
+
+export const appRedis = new Redis(REDIS_URL, { lazyConnect: true });
+export const pubClient = new Redis(REDIS_URL, { lazyConnect: true });
 export const subClient = pubClient.duplicate();
 
 // Helpful logs (won’t crash app)
@@ -0,0 +1,302 @@
+import { Schema, model } from "mongoose";
+import { connectMongo, mongoEnabled } from "../db/mongo";
+import type { ChatEvidenceItem, ChatHistoryItem, ChatReaction, ChatRevision } from "../type";
+
+// How long chat lines are kept after they were sent. 0 keeps them only while
+// the call lasts: the room's history is purged as soon as it ends.
+export const CHAT_RETENTION_MS = Number(process.env.CHAT_RETENTION_MS ?? 24 * 60 * 60 * 1000);
+
+// Lines of a room that is never torn down (say, the instance died mid-call)
+// still expire after this long when retention is 0
+const ORPHAN_MS = 24 * 60 * 60 * 1000;
+const KEEP_MS = CHAT_RETENTION_MS || ORPHAN_MS;
+
+// Most lines a room's history holds (and `chat:history` serves)
+export const MAX_HISTORY = 300;
+
+// Most reactions a single line collects
+const MAX_REACTIONS = 50;
+
+// Who wrote a line or reacted to it, as identities (see auth/identity). Kept
+// server-side only; clients see the clientId the reactor had at the time.
+export interface Reactor {
+  identity: string;
+  clientId: string;
+}
+
+interface StoredReaction extends Reactor {
+  emoji: string;
+}
+
+export interface ChatStore {
+  append(roomId: string, item: ChatHistoryItem, author: string): Promise<void>;
+  /** The room's most recent `limit` lines, oldest first. */
+  history(roomId: string, limit?: number): Promise<ChatHistoryItem[]>;
+  /** Like `history`, with the text each line had before edits and deletes (for reports). */
+  evidence(roomId: string, limit?: number): Promise<ChatEvidenceItem[]>;
+  /**
+   * Replace the text of a line `author` wrote; the old text is kept as evidence. The edit, delete and react
+   * methods return the updated line, or null if there is no such line
+   * (or, for edit and delete, it is someone else's).
+   */
+  edit(roomId: string, id: string, author: string, text: string): Promise<ChatHistoryItem | null>;
+  /** Leaves a tombstone: the line stays in place with its text emptied (and kept as evidence). */
+  remove(roomId: string, id: string, author: string): Promise<ChatHistoryItem | null>;
+  /** Add `emoji` from this reactor, or take it back if they already added it. */
+  react(roomId: string, id: string, reactor: Reactor, emoji: string): Promise<ChatHistoryItem | null>;
+  purge(roomId: string): Promise<void>;
+}
+
+// Reactions as clients see them: one entry per emoji, in order of first use
+function groupReactions(reactions: StoredReaction[]): ChatReaction[] {
+  const byEmoji = new Map<string, string[]>();
+  for (const r of reactions) byEmoji.set(r.emoji, [...(byEmoji.get(r.emoji) ?? []), r.clientId]);
+  return [...byEmoji].map(([emoji, by]) => ({ emoji, by }));
+}
+
+function toggleReaction(reactions: StoredReaction[], reactor: Reactor, emoji: string) {
+  const mine = (r: StoredReaction) => r.identity === reactor.identity && r.emoji === emoji;
+  if (reactions.some(mine)) return reactions.filter((r) => !mine(r));
+  if (reactions.length >= MAX_REACTIONS) return reactions;
+  return [...reactions, { ...reactor, emoji }];
+}
+
+// ---------- In-memory (dev) ----------
+
+// Lines expire by when the server received them; `ts` comes from the client
+interface StoredLine {
+  item: ChatHistoryItem;
+  storedAt: number;
+  author: string;
+  reactions: StoredReaction[];
+  edits: ChatRevision[];
+}
+
+function viewOf(line: StoredLine): ChatHistoryItem {
+  return line.reactions.length ? { ...line.item, reactions: groupReactions(line.reactions) } : { ...line.item };
+}
+
+function evidenceOf(line: StoredLine): ChatEvidenceItem {
+  return line.edits.length ? { ...viewOf(line), edits: [...line.edits] } : viewOf(line);
+}
+
+export class MemoryChatStore implements ChatStore {
+  private rooms = new Map<string, StoredLine[]>();
+  private sweeper: NodeJS.Timeout;
+
+  constructor() {
+    this.sweeper = setInterval(() => this.sweep(), 60 * 1000);
+    this.sweeper.unref();
+  }
+
+  async append(roomId: string, item: ChatHistoryItem, author: string) {
+    const lines = this.rooms.get(roomId) || [];
+    lines.push({ item, storedAt: Date.now(), author, reactions: [], edits: [] });
+    if (lines.length > MAX_HISTORY) lines.splice(0, lines.length - MAX_HISTORY);
+    this.rooms.set(roomId, lines);
+  }
+
+  async history(roomId: string, limit = MAX_HISTORY) {
+    return this.recent(roomId, limit).map(viewOf);
+  }
+
+  async evidence(roomId: string, limit = MAX_HISTORY) {
+    return this.recent(roomId, limit).map(evidenceOf);
+  }
+
+  async edit(roomId: string, id: string, author: string, text: string) {
+    const line = this.find(roomId, id);
+    if (!line || line.author !== author || line.item.deleted) return null;
+    const now = Date.now();
+    line.edits.push({ text: line.item.text, replacedAt: now });
+    line.item = { ...line.item, text, editedAt: now };
+    return viewOf(line);
+  }
+
+  async remove(roomId: string, id: string, author: string) {
+    const line = this.find(roomId, id);
+    if (!line || line.author !== author) return null;
+    if (!line.item.deleted) line.edits.push({ text: line.item.text, replacedAt: Date.now() });
+    line.item = { ...line.item, text: "", deleted: true };
+    line.reactions = [];
+    return viewOf(line);
+  }
+
+  async react(roomId: string, id: string, reactor: Reactor, emoji: string) {
+    const line = this.find(roomId, id);
+    if (!line || line.item.kind === "system" || line.item.deleted) return null;
+    line.reactions = toggleReaction(line.reactions, reactor, emoji);
+    return viewOf(line);
+  }
+
+  async purge(roomId: string) {
+    this.rooms.delete(roomId);
+  }
+
+  private recent(roomId: string, limit: number) {
+    const since = Date.now() - KEEP_MS;
+    return (this.rooms.get(roomId) || []).filter((l) => l.storedAt > since).slice(-limit);
+  }
+
+  private find(roomId: string, id: string) {
+    const since = Date.now() - KEEP_MS;
+    return this.rooms.get(roomId)?.find((l) => l.item.id === id && l.storedAt > since);
+  }
+
+  // Drop expired lines, and rooms left without any
+  private sweep() {
+    const since = Date.now() - KEEP_MS;
+    for (const [roomId, lines] of this.rooms) {
+      const kept = lines.filter((l) => l.storedAt > since);
+      if (kept.length) this.rooms.set(roomId, kept);
+      else this.rooms.delete(roomId);
+    }
+  }
+}
+
+// ---------- MongoDB ----------
+
+const chatLineSchema = new Schema(
+  {
+    roomId: { type: String, required: true },
+    // ChatHistoryItem.id (`id` itself is taken by Mongoose)
+    messageId: { type: String },
+    text: { type: String, required: true },
+    from: { type: String, required: true },
+    clientId: { type: String, required: true },
+    ts: { type: Number, required: true },
+    kind: { type: String, enum: ["user", "system"] },
+    author: { type: String },
+    editedAt: { type: Number },
+    deleted: { type: Boolean },
+    reactions: {
+      type: [{ _id: false, emoji: String, identity: String, clientId: String }],
+      default: undefined,
+    },
+    // earlier texts, for reports only
+    edits: { type: [{ _id: false, text: String, replacedAt: Number }], default: undefined },
+    // MongoDB deletes each line once this passes
+    expiresAt: { type: Date, required: true, index: { expireAfterSeconds: 0 } },
+  },
+  { versionKey: false }
+);
+chatLineSchema.index({ roomId: 1, _id: -1 });
+chatLineSchema.index({ roomId: 1, messageId: 1 });
+
+const ChatLineModel = model("ChatLine", chatLineSchema);
+
+type ChatLineDoc = {
+  _id: unknown;
+  messageId?: string | null;
+  text: string;
+  from: string;
+  clientId: string;
+  ts: number;
+  kind?: string | null;
+  editedAt?: number | null;
+  deleted?: boolean | null;
+  reactions?: { emoji?: string | null; identity?: string | null; clientId?: string | null }[] | null;
+  edits?: { text?: string | null; replacedAt?: number | null }[] | null;
+};
+
+function storedReactions(doc: ChatLineDoc): StoredReaction[] {
+  return (doc.reactions ?? []).map((r) => ({
+    emoji: r.emoji ?? "",
+    identity: r.identity ?? "",
+    clientId: r.clientId ?? "",
+  }));
+}
+
+// Lines stored before messages had ids fall back to the document id
+function itemOf(doc: ChatLineDoc): ChatHistoryItem {
+  const reactions = storedReactions(doc);
+  return {
+    id: doc.messageId || String(doc._id),
+    text: doc.text,
+    from: doc.from,
+    clientId: doc.clientId,
+    ts: doc.ts,
+    ...(doc.kind ? { kind: doc.kind as ChatHistoryItem["kind"] } : {}),
+    ...(doc.editedAt ? { editedAt: doc.editedAt } : {}),
+    ...(doc.deleted ? { deleted: true } : {}),
+    ...(reactions.length ? { reactions: groupReactions(reactions) } : {}),
+  };
+}
+
+function evidenceItemOf(doc: ChatLineDoc): ChatEvidenceItem {
+  const edits = (doc.edits ?? []).map((e) => ({ text: e.text ?? "", replacedAt: e.replacedAt ?? 0 }));
+  return edits.length ? { ...itemOf(doc), edits } : itemOf(doc);
+}
+
+// Pipeline stage that files the line's current text under `edits` (once: a
+// deleted line has nothing left to file)
+function keepText(replacedAt: number) {
+  const filed = { $concatArrays: [{ $ifNull: ["$edits", []] }, [{ text: "$text", replacedAt }]] };
+  return { $set: { edits: { $cond: [{ $eq: ["$deleted", true] }, "$edits", filed] } } };
+}
+
+export class MongoChatStore implements ChatStore {
+  async append(roomId: string, { id, ...item }: ChatHistoryItem, author: string) {
+    await ChatLineModel.create({ roomId, messageId: id, ...item, author, expiresAt: new Date(Date.now() + KEEP_MS) });
+  }
+
+  // The TTL monitor only runs every minute, so expired lines are filtered too
+  async history(roomId: string, limit = MAX_HISTORY) {
+    return (await this.recent(roomId, limit)).map(itemOf);
+  }
+
+  async evidence(roomId: string, limit = MAX_HISTORY) {
+    return (await this.recent(roomId, limit)).map(evidenceItemOf);
+  }
+
+  // Updates are pipelines so the old text can be copied; the new one is a
+  // $literal, since user text starting with `$` would read as a field path
+  async edit(roomId: string, id: string, author: string, text: string) {
+    const now = Date.now();
+    const doc = await ChatLineModel.findOneAndUpdate(
+      { roomId, messageId: id, author, deleted: { $ne: true }, expiresAt: { $gt: new Date() } },
+      [keepText(now), { $set: { text: { $literal: text }, editedAt: now } }],
+      { new: true }
+    ).lean();
+    return doc ? itemOf(doc) : null;
+  }
+
+  async remove(roomId: string, id: string, author: string) {
+    const doc = await ChatLineModel.findOneAndUpdate(
+      { roomId, messageId: id, author, expiresAt: { $gt: new Date() } },
+      [keepText(Date.now()), { $set: { text: "", deleted: true } }, { $unset: "reactions" }],
+      { new: true }
+    ).lean();
+    return doc ? itemOf(doc) : null;
+  }
+
+  // Read, toggle, write back: a concurrent reaction to the same line may be
+  // lost, which two people in a call can live with
+  async react(roomId: string, id: string, reactor: Reactor, emoji: string) {
+    const filter = { roomId, messageId: id, kind: { $ne: "system" }, deleted: { $ne: true }, expiresAt: { $gt: new Date() } };
+    const doc = await ChatLineModel.findOne(filter).lean();
+    if (!doc) return null;
+    const reactions = toggleReaction(storedReactions(doc), reactor, emoji);
+    const updated = await ChatLineModel.findOneAndUpdate(filter, { $set: { reactions } }, { new: true }).lean();
+    return updated ? itemOf(updated) : null;
+  }
+
+  async purge(roomId: string) {
+    await ChatLineModel.deleteMany({ roomId });
+  }
+
+  private async recent(roomId: string, limit: number) {
+    const docs = await ChatLineModel.find({ roomId, expiresAt: { $gt: new Date() } })
+      .sort({ _id: -1 })
+      .limit(Math.min(limit, MAX_HISTORY))
+      .lean();
+    return docs.reverse();
+  }
+}
+
+/** MongoDB-backed store when MONGO_URI is set, in-memory otherwise. */
+export function createChatStore(): ChatStore {
+  if (!mongoEnabled) return new MemoryChatStore();
+  connectMongo();
+  return new MongoChatStore();
+}
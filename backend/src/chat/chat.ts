@@ -1,47 +1,54 @@
 // server/chat.ts
-import type { Server, Socket } from "socket.io";
-
-// --- Simple in-memory per-room history ---
-type HistItem = {
-  text: string;
-  from: string;
-  clientId: string;
-  ts: number;
-  kind?: "user" | "system";
-};
-
-const MAX_HISTORY = 300;
-const roomHistories = new Map<string, HistItem[]>();
-
-function pushRoomHistory(room: string, item: HistItem) {
-  const arr = roomHistories.get(room) || [];
-  arr.push(item);
-  if (arr.length > MAX_HISTORY) {
-    arr.splice(0, arr.length - MAX_HISTORY);
-  }
-  roomHistories.set(room, arr);
+
+import { randomUUID } from "crypto";
+import type { AppServer, AppSocket, ChatHistoryItem } from "../type";
+import { onValidated, fail, notInRoom } from "../validation/handler";
+import { identityOf } from "../auth/identity";
+import { CHAT_RETENTION_MS, type ChatStore } from "./ChatStore";
+
+const CHAT_PREFIX = "chat:";
+const MAX_TEXT = 1000;
+// Author of join/leave notices, which nobody can edit
+const SYSTEM_AUTHOR = "system";
+
+// The peer's client has this long to ack a line for it to count as delivered
+const DELIVERY_TIMEOUT_MS = 10 * 1000;
+
+// A resent line (same room, sender and localId) gets the id it was first given
+// instead of being stored again, for this long. Kept per instance.
+const RESEND_WINDOW_MS = 5 * 60 * 1000;
+const sentLines = new Map<string, { id: string; at: number }>();
+
+setInterval(() => {
+  const since = Date.now() - RESEND_WINDOW_MS;
+  for (const [key, line] of sentLines) if (line.at <= since) sentLines.delete(key);
+}, 60 * 1000).unref();
+
+// Saving a line must never hold up or break the live chat
+function saveLine(store: ChatStore, roomId: string, item: ChatHistoryItem, author = SYSTEM_AUTHOR) {
+  store
+    .append(roomId, item, author)
+    .catch((e) => console.warn("[chat] failed to save history", e?.message));
+}
+
+/** Apply the retention policy to a room whose call just ended. */
+export async function endChatRoom(store: ChatStore, roomId: string) {
+  if (CHAT_RETENTION_MS === 0) await store.purge(roomId);
 }
 
-import type {
-  SocketData,
-  ChatJoinPayload,
-  ChatMessagePayload,
-  ChatTypingPayload,
-  ChatLeavePayload,
-} from "../type";
-export async function joinChatRoom(socket: Socket, roomId: string, name: string) {
+export async function joinChatRoom(socket: AppSocket, store: ChatStore, roomId: string, name: string) {
   if (!roomId) return;
   const room = `chat:${roomId}`;
 
   // per-socket data bag
-  const data = (socket.data as SocketData) || ((socket as Socket & { data: SocketData }).data = {});
+  const data = socket.data || (socket.data = {});
   data.chatNames = data.chatNames || {};
   data.chatNames[room] = name;
   // guard against duplicate rapid joins
-  (data as any).chatJoining = (data as any).chatJoining || {};
-  (data as any).chatJoinedOnce = (data as any).chatJoinedOnce || {};
-  if ((data as any).chatJoining[room]) return; // join in-flight, ignore
-  (data as any).chatJoining[room] = true;
+  data.chatJoining = data.chatJoining || {};
+  data.chatJoinedOnce = data.chatJoinedOnce || {};
+  if (data.chatJoining[room]) return; // join in-flight, ignore
+  data.chatJoining[room] = true;
 
   try {
     const alreadyInRoom = socket.rooms.has(room);
@@ -50,75 +57,133 @@ export async function joinChatRoom(socket: Socket, roomId: string, name: string)
     // only announce join once per socket per room
     if (!alreadyInRoom) {
       // broadcast a single generic join notice to the entire room (including self)
-      const sys = { text: `peer joined the chat`, ts: Date.now() };
+      const sys = { id: randomUUID(), text: `peer joined the chat`, ts: Date.now() };
       socket.nsp.in(room).emit("chat:system", sys);
       // Do not store join events in history to avoid duplicating on fetch
     }
   } finally {
-    (data as any).chatJoining[room] = false;
+    data.chatJoining[room] = false;
   }
 
   // After successful join, send recent history for this room (messages + leave events)
-  const history = roomHistories.get(room) || [];
+  const history = await store.history(roomId).catch((e) => {
+    console.warn("[chat] failed to load history", e?.message);
+    return [];
+  });
   socket.emit("chat:history", { roomId, messages: history });
 }
 
-export function wireChat(io: Server, socket: Socket) {
+// `isMember` decides whether this socket was paired into `roomId`; joining,
+// messaging and typing are refused otherwise. Leaving is always allowed.
+export function wireChat(
+  io: AppServer,
+  socket: AppSocket,
+  store: ChatStore,
+  isMember: (roomId: string) => Promise<boolean>
+) {
+  // Lines belong to whoever sent them, across reconnects for signed-in users
+  const identity = () => identityOf({ socketId: socket.id, userId: socket.data.userId ?? null });
+
   // Allows explicit joins (reconnects/late-joins)
-  socket.on("chat:join", async ({ roomId, name }: ChatJoinPayload) => {
-    await joinChatRoom(socket, roomId, name || "A user");
+  onValidated(socket, "chat:join", async ({ roomId, name }) => {
+    if (!(await isMember(roomId))) return notInRoom();
+    await joinChatRoom(socket, store, roomId, name || "A user");
   });
 
-  // Broadcast a message to everyone in the chat room
-  socket.on("chat:message", (payload: ChatMessagePayload) => {
-    const { roomId, text, from, clientId, ts } = payload || {};
-    const safeText = (text || "").toString().trim().slice(0, 1000); 
-    if (!roomId || !safeText) return;
+  // Relay a message to the rest of the chat room; the sender learns its id
+  // from the ack and gets a `chat:receipt` once the peer's client acks it
+  onValidated(socket, "chat:message", async ({ roomId, text, from, clientId, localId, ts }) => {
+    if (!(await isMember(roomId))) return notInRoom();
+    const safeText = text.trim().slice(0, MAX_TEXT);
+    if (!safeText) return fail("INVALID_PAYLOAD", "Message is empty");
+
+    // localId is the client's own choice, so it only dedupes that sender's lines
+    const key = `${roomId}:${identity()}:${localId}`;
+    const resent = sentLines.get(key);
+    if (resent) return { ok: true, id: resent.id };
 
     const final = {
+      id: randomUUID(),
       text: safeText,
       from,
       clientId,
       ts: ts || Date.now(),
     };
-    socket.nsp.in(`chat:${roomId}`).emit("chat:message", final);
-    pushRoomHistory(`chat:${roomId}`, { ...final, kind: "user" });
+    sentLines.set(key, { id: final.id, at: Date.now() });
+    socket
+      .to(`chat:${roomId}`)
+      .timeout(DELIVERY_TIMEOUT_MS)
+      .emit("chat:message", final, (_err, acks) => {
+        if (!acks.some((a) => a?.ok) || socket.disconnected) return;
+        socket.emit("chat:receipt", { roomId, ids: [final.id], status: "delivered" });
+      });
+    saveLine(store, roomId, { ...final, kind: "user" }, identity());
+    return { ok: true, id: final.id };
+  });
+
+  // Edits, deletes and reactions reach everyone in the room, the sender's
+  // other views included, as the line's new state
+  const update = (roomId: string, message: ChatHistoryItem | null) => {
+    if (!message) return fail("NOT_FOUND", "No such message");
+    socket.nsp.in(`chat:${roomId}`).emit("chat:update", { roomId, message });
+  };
+
+  onValidated(socket, "chat:edit", async ({ roomId, id, text }) => {
+    if (!(await isMember(roomId))) return notInRoom();
+    const safeText = text.trim().slice(0, MAX_TEXT);
+    if (!safeText) return fail("INVALID_PAYLOAD", "Message is empty");
+    return update(roomId, await store.edit(roomId, id, identity(), safeText));
+  });
+
+  onValidated(socket, "chat:delete", async ({ roomId, id }) => {
+    if (!(await isMember(roomId))) return notInRoom();
+    return update(roomId, await store.remove(roomId, id, identity()));
+  });
+
+  onValidated(socket, "chat:react", async ({ roomId, id, emoji }) => {
+    if (!(await isMember(roomId))) return notInRoom();
+    return update(roomId, await store.react(roomId, id, { identity: identity(), clientId: socket.id }, emoji));
+  });
+
+  // Read receipts: the reader's chat drawer showed these lines
+  onValidated(socket, "chat:read", async ({ roomId, ids }) => {
+    if (!(await isMember(roomId))) return notInRoom();
+    socket.to(`chat:${roomId}`).emit("chat:receipt", { roomId, ids, status: "read" });
   });
 
   // Typing indicator to peers (not echoed to sender)
-  socket.on("chat:typing", ({ roomId, from, typing }: ChatTypingPayload) => {
-    if (!roomId) return;
+  onValidated(socket, "chat:typing", async ({ roomId, from, typing }) => {
+    if (!(await isMember(roomId))) return notInRoom();
     socket.to(`chat:${roomId}`).emit("chat:typing", { from, typing });
   });
 
   // Explicit leave (e.g., navigating away or switching rooms)
-  socket.on("chat:leave", ({ roomId, name }: ChatLeavePayload) => {
-    if (!roomId) return;
+  onValidated(socket, "chat:leave", ({ roomId, name }) => {
     const room = `chat:${roomId}`;
     if (socket.rooms.has(room)) {
       // emit to room BEFORE leaving so the leaver also gets the message once
-      const msg = { text: `peer left the chat`, ts: Date.now() };
+      const msg = { id: randomUUID(), text: `peer left the chat`, ts: Date.now() };
       socket.nsp.in(room).emit("chat:system", msg);
-      pushRoomHistory(room, { text: msg.text, from: "system", clientId: "system", ts: msg.ts!, kind: "system" });
+      saveLine(store, roomId, { ...msg, from: "system", clientId: "system", kind: "system" });
       socket.leave(room);
     }
-    const data = (socket.data as SocketData) || ((socket as Socket & { data: SocketData }).data = {});
+    const data = socket.data || (socket.data = {});
     // mark this room as explicitly left to prevent duplicate leave on disconnecting
-    (data as any).chatLeftRooms = (data as any).chatLeftRooms || {};
-    (data as any).chatLeftRooms[room] = true;
+    data.chatLeftRooms = data.chatLeftRooms || {};
+    data.chatLeftRooms[room] = true;
     if (data.chatNames) delete data.chatNames[room];
   });
 
   // Announce leave on disconnect across all chat rooms this socket was part of
   socket.on("disconnecting", () => {
-    const data = (socket.data as SocketData) || {};
+    const data = socket.data || {};
     for (const room of socket.rooms) {
-      if (typeof room === "string" && room.startsWith("chat:")) {
-        const alreadyLeft = (data as any).chatLeftRooms?.[room];
+      if (typeof room === "string" && room.startsWith(CHAT_PREFIX)) {
+        const alreadyLeft = data.chatLeftRooms?.[room];
         if (!alreadyLeft) {
-          const sys = { text: `peer left the chat`, ts: Date.now() };
+          const sys = { id: randomUUID(), text: `peer left the chat`, ts: Date.now() };
           socket.nsp.in(room).emit("chat:system", sys);
-          pushRoomHistory(room, { text: sys.text, from: "system", clientId: "system", ts: sys.ts!, kind: "system" });
+          saveLine(store, room.slice(CHAT_PREFIX.length), { ...sys, from: "system", clientId: "system", kind: "system" });
         }
       }
     }
@@ -0,0 +1,23 @@
+import mongoose from "mongoose";
+
+const MONGO_URI = process.env.MONGO_URI || "";
+
+// Persistence is opt-in: without MONGO_URI, stores fall back to process memory (dev)
+export const mongoEnabled = MONGO_URI.length > 0;
+
+let connecting: Promise<typeof mongoose> | null = null;
+
+// Idempotent; mongoose buffers model calls until the connection is ready
+export function connectMongo() {
+  if (!connecting) {
+    connecting = mongoose.connect(MONGO_URI);
+    connecting
+      .then(() => console.log("[mongo] connected"))
+      .catch((e) => console.warn("[mongo] connection error", e?.message));
+  }
+  return connecting;
+}
+
+export async function disconnectMongo() {
+  if (connecting) await mongoose.disconnect().catch(() => {});
+}
@@ -1,154 +1,236 @@
 import http from "http";
 import express from "express";
-import { Server, Socket } from "socket.io";
+import { Server } from "socket.io";
 
 import { UserManager } from "./managers/UserManger"; // corrected spelling
-// import { pubClient, subClient } from "./cache/redis";
-// import { presenceUp, presenceHeartbeat, presenceDown, countOnline } from "./cache/presence";
-// import { createAdapter } from "@socket.io/redis-adapter";
-
-import { wireChat /*, joinChatRoom */ } from "./chat/chat"; // keep wiring util
-
-import type { HandshakeAuth, HandshakeQuery, ChatJoinPayload } from "./type";
+import { createMatchStore } from "./match/MatchStore";
+import { appRedis, pubClient, subClient, redisEnabled } from "./cache/redis";
+import { presenceHeartbeat, countOnline } from "./cache/presence";
+import { createAdapter } from "@socket.io/redis-adapter";
+
+import { endChatRoom, wireChat /*, joinChatRoom */ } from "./chat/chat"; // keep wiring util
+import { createChatStore } from "./chat/ChatStore";
+import { onValidated, notInRoom } from "./validation/handler";
+import { handshakeAuthSchema } from "./validation/schemas";
+import { createReportStore } from "./moderation/ReportStore";
+import { BanList, createBanStore } from "./moderation/BanList";
+import { createAdminRouter } from "./admin/routes";
+import { wireReports } from "./moderation/reports";
+import { createBlockStore } from "./moderation/BlockStore";
+import { wireBlocks } from "./moderation/blocks";
+import { wireIceServers } from "./rtc/iceServers";
+import { penaltyLeft, throttle } from "./ratelimit/throttle";
+import { disconnectMongo } from "./db/mongo";
+import { clerkEnabled, guestsAllowed, verifySessionToken } from "./auth/clerk";
+
+import type {
+  AppSocket,
+  ClientToServerEvents,
+  ServerToClientEvents,
+  InterServerEvents,
+  SocketData,
+  HandshakeErrorCode,
+} from "./type";
 
 const app = express();
 const server = http.createServer(app);
 
-const io = new Server(server, { cors: { origin: "*" } });
-// io.adapter(createAdapter(pubClient, subClient));
+const io = new Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>(server, {
+  cors: { origin: "*" },
+});
 
-const userManager = new UserManager();
+// Multi-instance mode: with REDIS_URL every instance shares rooms/broadcasts
+// through the adapter and matching state through the Redis match store.
+if (redisEnabled) io.adapter(createAdapter(pubClient, subClient));
 
-// Set the io instance for UserManager after creation
-userManager.setIo(io);
+// Matching state lives in Redis when REDIS_URL is set (shared, survives restarts)
+const userManager = new UserManager(io, createMatchStore());
+const reportStore = createReportStore();
+const chatStore = createChatStore();
+const banList = new BanList(createBanStore());
+
+// Chat history is kept per CHAT_RETENTION_MS, or dropped when the call ends
+userManager.onRoomEnded((roomId) => {
+  endChatRoom(chatStore, roomId).catch((e) => console.warn("[chat] failed to purge history", e?.message));
+});
+
+// Signed-in users' block lists are loaded on connect and kept out of matching
+userManager.setBlockStore(createBlockStore());
+
+// Moderator bans are checked on connect and in the matching loop
+userManager.setBanList(banList);
+banList.load().catch((e) => console.warn("[bans] failed to load", e?.message));
+
+// A ban changed here: kick matching users, then let the other instances reload
+const onBansChanged = () => {
+  userManager.enforceBans();
+  if (redisEnabled) io.serverSideEmit("bans:changed");
+};
+
+io.on("bans:changed", () => {
+  banList
+    .load()
+    .then(() => userManager.enforceBans())
+    .catch((e) => console.warn("[bans] failed to reload", e?.message));
+});
 
 // Health endpoint
 app.get("/healthz", async (_req, res) => {
   try {
-    // const online = await countOnline().catch(() => -1);
-    // res.json({ ok: true, online });
-    res.json({ ok: true, online: -1 }); // fallback without Redis
+    // Across all instances with Redis, this instance only otherwise
+    const online = redisEnabled ? await countOnline().catch(() => -1) : userManager.count();
+    res.json({ ok: true, online });
   } catch {
     res.json({ ok: true, online: -1 });
   }
 });
 
+// Moderator API (reports + bans), bearer-token protected
+app.use("/admin", createAdminRouter({ reports: reportStore, bans: banList, onBansChanged }));
+
 const HEARTBEAT_MS = Number(process.env.SOCKET_HEARTBEAT_MS || 30_000);
 const heartbeats = new Map<string, NodeJS.Timeout>();
 
-io.on("connection", (socket: Socket) => {
+// Handshake: a Clerk session token (`auth.token`) ties the socket to a person;
+// without one the user connects as a guest, if guests are allowed
+io.use(async (socket, next) => {
+  const refuse = (code: HandshakeErrorCode) => next(new Error(code));
+  const parsed = handshakeAuthSchema.safeParse(socket.handshake.auth ?? {});
+  const token = parsed.success ? parsed.data.token : undefined;
+
+  if (token && clerkEnabled) {
+    const userId = await verifySessionToken(token);
+    if (!userId) return refuse("UNAUTHORIZED");
+    socket.data.userId = userId;
+    return next();
+  }
+
+  if (!guestsAllowed) return refuse("AUTH_REQUIRED");
+  socket.data.userId = null;
+  next();
+});
+
+// Runs after authentication, since penalties are keyed by user id (session for guests)
+io.use((socket, next) => {
+  if (penaltyLeft(socket) > 0) return next(new Error("RATE_LIMITED" satisfies HandshakeErrorCode));
+  next();
+});
+
+io.on("connection", (socket: AppSocket) => {
   // console.log(`[io] connected ${socket.id}`);
 
-  // Derive meta
+  // Derive meta (preferences pick the queue shards this user waits in)
+  const auth = handshakeAuthSchema.safeParse(socket.handshake.auth ?? {});
+  const { name, language, industry, skillBucket, resumeToken } = auth.success ? auth.data : {};
   const meta = {
-    name: (socket.handshake.auth as HandshakeAuth)?.name || "guest",
+    name: name || "guest",
+    language,
+    industry,
+    skillBucket,
     ip: socket.handshake.address || null,
     ua: (socket.handshake.headers["user-agent"] as string) || null,
   };
 
-  // Presence (disabled Redis for now)
-  // presenceUp(socket.id, meta).catch((e) => console.warn("[presenceUp]", e?.message));
-
+  // Presence is written by the Redis match store when the user goes online;
+  // the heartbeat keeps it alive (it expires on its own if this instance dies)
   const hb = setInterval(() => {
-    // presenceHeartbeat(socket.id).catch((e) => console.warn("[presenceHeartbeat]", e?.message));
+    if (redisEnabled) {
+      presenceHeartbeat(socket.id).catch((e) => console.warn("[presenceHeartbeat]", e?.message));
+    }
   }, HEARTBEAT_MS);
   heartbeats.set(socket.id, hb);
 
-  // Track user
-  userManager.addUser(meta.name, socket, meta);
+  // Every inbound event is charged to a per-socket (and per-user) budget
+  throttle(socket);
 
-  // Hook up chat listeners (chat:join, chat:message, chat:typing)
-  wireChat(io, socket);
-
-  // Auto-join a chat room if the client provided it (supports auth or query)
-  // Normalize to using `chat:<roomId>` as the room namespace everywhere
-  const roomFromAuth = (socket.handshake.auth as HandshakeAuth)?.roomId;
-  const roomFromQuery = (socket.handshake.query as HandshakeQuery)?.roomId;
-  const initialRoomRaw = (roomFromAuth || roomFromQuery || "").toString().trim();
-  const normalizeRoom = (r: string) => (r ? `chat:${r}` : "");
-
-  const initialRoomId = normalizeRoom(initialRoomRaw);
-  // Do not auto-join here; let chat.ts handle joining and announcements to avoid duplicates
-  if (initialRoomId) {
-    userManager.setRoom(socket.id, initialRoomId);
+  // Track user (banned users are disconnected right away; a resume token
+  // reclaims a call dropped moments ago)
+  if (!userManager.addUser(meta.name, socket, meta, resumeToken)) {
+    clearInterval(hb);
+    heartbeats.delete(socket.id);
+    return;
   }
 
-  // Keep UserManager in sync when client explicitly joins later
-  socket.on("chat:join", ({ roomId }: ChatJoinPayload) => {
-    try {
-      if (!roomId || typeof roomId !== "string") return;
-      const namespaced = normalizeRoom(roomId.trim());
-      // Keep UserManager in sync only; actual join + announcements are handled in chat.ts
-      userManager.setRoom(socket.id, namespaced);
-    } catch (err) {
-      console.warn("[chat:join] error", err);
-    }
-  });
+  // Hook up chat listeners (chat:join, chat:message, chat:typing)
+  wireChat(io, socket, chatStore, (roomId) => userManager.isInRoom(socket.id, roomId));
 
-  // Screen share + media + renegotiation handlers (same behavior, use namespaced rooms)
-  const toRoom = (roomId?: string) => (roomId ? `chat:${roomId}` : undefined);
+  // Moderation reports (validated against the reporter's actual pairing)
+  wireReports(socket, userManager, reportStore, chatStore);
 
-  socket.on("screen:state", ({ roomId, on }: { roomId: string; on: boolean }) => {
-    const r = toRoom(roomId);
-    if (r) socket.to(r).emit("screen:state", { on, from: socket.id });
-  });
+  // Blocking the current partner and undoing blocks
+  wireBlocks(socket, userManager);
 
-  socket.on("screenshare:offer", ({ roomId, sdp }) => {
-    const r = toRoom(roomId);
-    if (r) socket.to(r).emit("screenshare:offer", { sdp, from: socket.id });
-  });
+  // STUN/TURN servers (with fresh TURN credentials) for each peer connection
+  wireIceServers(socket);
+
+  // Room membership is assigned by matching only (UserManager -> RoomManager).
+  // A room id supplied by the client (handshake auth/query or chat:join) is never
+  // trusted on its own; every relay below checks the sender is paired into it.
 
-  socket.on("screenshare:answer", ({ roomId, sdp }) => {
-    const r = toRoom(roomId);
-    if (r) socket.to(r).emit("screenshare:answer", { sdp, from: socket.id });
+  // Screen share + media + renegotiation handlers (use namespaced `chat:<roomId>` rooms)
+  const toRoom = async (roomId: string) =>
+    (await userManager.isInRoom(socket.id, roomId)) ? `chat:${roomId}` : undefined;
+
+  onValidated(socket, "screen:state", async ({ roomId, on }) => {
+    const r = await toRoom(roomId);
+    if (!r) return notInRoom();
+    socket.to(r).emit("screen:state", { on, from: socket.id });
   });
 
-  socket.on("screenshare:ice-candidate", ({ roomId, candidate }) => {
-    const r = toRoom(roomId);
-    if (r) socket.to(r).emit("screenshare:ice-candidate", { candidate, from: socket.id });
+  onValidated(socket, "screenshare:offer", async ({ roomId, sdp }) => {
+    const r = await toRoom(roomId);
+    if (!r) return notInRoom();
+    socket.to(r).emit("screenshare:offer", { sdp, from: socket.id });
   });
 
-  socket.on("screenshare:track-start", ({ roomId }) => {
-    const r = toRoom(roomId);
-    if (r) socket.to(r).emit("screenshare:track-start", { from: socket.id });
+  onValidated(socket, "screenshare:answer", async ({ roomId, sdp }) => {
+    const r = await toRoom(roomId);
+    if (!r) return notInRoom();
+    socket.to(r).emit("screenshare:answer", { sdp, from: socket.id });
   });
 
-  socket.on("screenshare:track-stop", ({ roomId }) => {
-    const r = toRoom(roomId);
-    if (r) socket.to(r).emit("screenshare:track-stop", { from: socket.id });
+  onValidated(socket, "screenshare:ice-candidate", async ({ roomId, candidate }) => {
+    const r = await toRoom(roomId);
+    if (!r) return notInRoom();
+    socket.to(r).emit("screenshare:ice-candidate", { candidate, from: socket.id });
   });
 
-  // Media state
-  socket.on("media:state", ({ roomId, state }: { roomId: string; state: { micOn?: boolean; camOn?: boolean } }) => {
-    const r = toRoom(roomId);
-    if (r) socket.to(r).emit("peer:media-state", { state, from: socket.id });
+  onValidated(socket, "screenshare:track-start", async ({ roomId }) => {
+    const r = await toRoom(roomId);
+    if (!r) return notInRoom();
+    socket.to(r).emit("screenshare:track-start", { from: socket.id });
   });
 
-  socket.on("media:cam", ({ roomId, on }: { roomId: string; on: boolean }) => {
-    const r = toRoom(roomId);
-    if (r) socket.to(r).emit("media:cam", { on, from: socket.id });
+  onValidated(socket, "screenshare:track-stop", async ({ roomId }) => {
+    const r = await toRoom(roomId);
+    if (!r) return notInRoom();
+    socket.to(r).emit("screenshare:track-stop", { from: socket.id });
   });
 
-  socket.on("media:mic", ({ roomId, on }: { roomId: string; on: boolean }) => {
-    const r = toRoom(roomId);
-    if (r) socket.to(r).emit("media:mic", { on, from: socket.id });
+  // Media state
+  onValidated(socket, "media:state", async ({ roomId, state }) => {
+    const r = await toRoom(roomId);
+    if (!r) return notInRoom();
+    socket.to(r).emit("peer:media-state", { state, from: socket.id });
   });
 
-  // Backwards-compat aliases
-  socket.on("state:update", ({ roomId, micOn, camOn }) => {
-    const r = toRoom(roomId);
-    if (r) socket.to(r).emit("peer:state", { micOn, camOn, from: socket.id });
+  onValidated(socket, "media:cam", async ({ roomId, on }) => {
+    const r = await toRoom(roomId);
+    if (!r) return notInRoom();
+    socket.to(r).emit("media:cam", { on, from: socket.id });
   });
 
-  // Renegotiation passthrough
-  socket.on("renegotiate-offer", ({ roomId, sdp, role }) => {
-    const r = toRoom(roomId);
-    if (r) socket.to(r).emit("renegotiate-offer", { sdp, role, from: socket.id });
+  onValidated(socket, "media:mic", async ({ roomId, on }) => {
+    const r = await toRoom(roomId);
+    if (!r) return notInRoom();
+    socket.to(r).emit("media:mic", { on, from: socket.id });
   });
 
-  socket.on("renegotiate-answer", ({ roomId, sdp, role }) => {
-    const r = toRoom(roomId);
-    if (r) socket.to(r).emit("renegotiate-answer", { sdp, role, from: socket.id });
+  // Backwards-compat aliases
+  onValidated(socket, "state:update", async ({ roomId, micOn, camOn }) => {
+    const r = await toRoom(roomId);
+    if (!r) return notInRoom();
+    socket.to(r).emit("peer:state", { micOn, camOn, from: socket.id });
   });
 
   socket.on("disconnect", (reason) => {
@@ -160,8 +242,6 @@ io.on("connection", (socket: Socket) => {
       heartbeats.delete(socket.id);
     }
 
-    // presenceDown(socket.id).catch((e) => console.warn("[presenceDown]", e?.message));
-
     // chat.ts handles leave announcements in its disconnecting handler
 
     userManager.removeUser(socket.id);
@@ -183,7 +263,8 @@ app.use((err: any, _req: express.Request, res: express.Response, _next: express.
   const status = err?.status || 500;
   const message = err?.message || "Internal Server Error";
 
-  console.error("Unhandled error:", err?.stack || err);
+  // Client errors (bad input, auth) are expected; only log server faults
+  if (status >= 500) console.error("Unhandled error:", err?.stack || err);
   res.status(status).json({ message });
 });
 
@@ -197,7 +278,10 @@ const shutdown = (signal: string) => {
     console.log("HTTP server closed.");
     // cleanup: clear all heartbeats
     heartbeats.forEach((hb) => clearInterval(hb));
-    process.exit(0);
+    const redisDown = redisEnabled
+      ? Promise.allSettled([appRedis, pubClient, subClient].map((c) => c.quit()))
+      : Promise.resolve();
+    Promise.allSettled([disconnectMongo(), redisDown]).finally(() => process.exit(0));
   });
 };
 
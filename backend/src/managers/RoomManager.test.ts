@@ -0,0 +1,73 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { AppServer } from "../type";
+import { MemoryMatchStore } from "../match/MatchStore";
+import { RoomManager } from "./RoomManager";
+
+// Collects what each socket was sent
+function fakeServer() {
+  const sent: { to: string; event: string }[] = [];
+  const io = { to: (to: string) => ({ emit: (event: string) => void sent.push({ to, event }) }) };
+  return { io: io as unknown as AppServer, sent };
+}
+
+async function pairedRoom(store: MemoryMatchStore) {
+  await store.setPartners("a", "b");
+  await store.setRoom("a", "room");
+  await store.setRoom("b", "room");
+}
+
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+test("a call that never connects is reported by the setup watchdog", async (t) => {
+  t.mock.timers.enable({ apis: ["setTimeout"] });
+  const store = new MemoryMatchStore();
+  await pairedRoom(store);
+  const { io, sent } = fakeServer();
+  const rooms = new RoomManager(io, store);
+  const failed: string[] = [];
+  rooms.onSetupFailed((roomId) => failed.push(roomId));
+
+  await rooms.negotiate("room", "a", "b");
+  assert.deepEqual(sent, [
+    { to: "a", event: "call:start" },
+    { to: "b", event: "call:start" },
+  ]);
+  assert.equal(await store.getCallState("room"), "pending");
+
+  t.mock.timers.tick(30_000);
+  await settle();
+  assert.deepEqual(failed, ["room"]);
+});
+
+test("a connected call is left alone, and interruptions only mark it", async (t) => {
+  t.mock.timers.enable({ apis: ["setTimeout"] });
+  const store = new MemoryMatchStore();
+  await pairedRoom(store);
+  const rooms = new RoomManager(fakeServer().io, store);
+  const failed: string[] = [];
+  rooms.onSetupFailed((roomId) => failed.push(roomId));
+
+  await rooms.negotiate("room", "a", "b");
+  assert.equal(await rooms.onConnected("room", "a"), true);
+  assert.equal(await rooms.onInterrupted("room", "b"), true);
+  assert.equal(await store.getCallState("room"), "interrupted");
+  // a late report does not move the call back
+  await rooms.onConnected("room", "b");
+  assert.equal(await store.getCallState("room"), "interrupted");
+  assert.equal(await rooms.onRecovered("room", "a"), true);
+  assert.equal(await store.getCallState("room"), "connected");
+
+  t.mock.timers.tick(30_000);
+  await settle();
+  assert.deepEqual(failed, []);
+});
+
+test("only members may report on a call", async () => {
+  const store = new MemoryMatchStore();
+  await pairedRoom(store);
+  const rooms = new RoomManager(fakeServer().io, store);
+  assert.equal(await rooms.onConnected("room", "stranger"), false);
+  assert.equal(await rooms.onInterrupted("room", "stranger"), false);
+  assert.equal(await rooms.onRecovered("room", "stranger"), false);
+});
@@ -1,80 +1,160 @@
-import { User } from "../type";
+import { randomUUID } from "crypto";
+import { AppServer, SessionDescription, IceCandidate } from "../type";
+import type { CallState, MatchStore } from "../match/MatchStore";
+
+// How long a call may take to connect (both sides told to start, until a
+// client reports its media connection up) before both users are requeued
+const CALL_SETUP_TIMEOUT_MS = Number(process.env.CALL_SETUP_TIMEOUT_MS || 30_000);
+// How long a room's state is kept: calls still connecting only need it until
+// the watchdog looks; a connected call keeps it for as long as a call can
+// reasonably last; an ended one briefly, so late reports are ignored
+const SETUP_STATE_TTL_MS = CALL_SETUP_TIMEOUT_MS * 2;
+const CONNECTED_STATE_TTL_MS = 24 * 60 * 60 * 1000;
+const ENDED_STATE_TTL_MS = 5 * 60 * 1000;
+
+// Rooms are not held here: membership is the `roomOf`/`partnerOf` state in the
+// match store, and peers are addressed by socket id through `io.to(id)`, so
+// the two users of a room may be connected to different backend instances.
+//
+// Each call moves through pending -> negotiating -> connected -> ended (see
+// CallState), and between connected and interrupted while its media drops
+// out, kept in the store so any instance can advance it. The instance
+// that starts a negotiation watches it: if the call is not connected within
+// CALL_SETUP_TIMEOUT_MS, the setup-failed listener ends it.
+export class RoomManager {
+    // setup watchdogs of negotiations started on this instance, by room
+    private watchdogs = new Map<string, NodeJS.Timeout>();
+    private setupFailed: ((roomId: string, user1Id: string, user2Id: string) => void) | null = null;
 
-let GLOBAL_ROOM_ID = 1;
+    constructor(private io: AppServer, private store: MatchStore) {}
 
-interface Room {
-    user1: User,
-    user2: User,
-}
+    // Called when a call does not connect in time
+    onSetupFailed(listener: (roomId: string, user1Id: string, user2Id: string) => void) {
+        this.setupFailed = listener;
+    }
 
-export class RoomManager {
-    private rooms: Map<string, Room>;
+    /**
+     * Ask both users to (re)build their media connection: for a new room, or
+     * after one resumed. Membership must be stored first, since the first
+     * offer is only relayed between members.
+     */
+    async negotiate(roomId: string, user1Id: string, user2Id: string) {
+        await this.store.setCallState(roomId, "pending", SETUP_STATE_TTL_MS);
+        this.watch(roomId, user1Id, user2Id);
+
+        // One peer connection per pair; the second user yields when offers collide
+        this.io.to(user1Id).emit("call:start", { roomId, peerId: user2Id, polite: false });
+        this.io.to(user2Id).emit("call:start", { roomId, peerId: user1Id, polite: true });
+    }
 
-    constructor() {
-        this.rooms = new Map<string, Room>();
+    /** A member's peer connection is up; false if the sender is not a member. */
+    async onConnected(roomId: string, senderSocketid: string) {
+        if (!(await this.isMember(roomId, senderSocketid))) return false;
+        this.unwatch(roomId);
+        await this.advance(roomId, "connected", CONNECTED_STATE_TTL_MS);
+        return true;
     }
 
-    // Return roomId so caller can store mappings
-    createRoom(user1: User, user2: User) {
-        const roomId = this.generate().toString();
-        this.rooms.set(roomId, { user1, user2 });
+    /**
+     * A member's media connection dropped mid-call; false if the sender is not
+     * a member. Only a connected call is marked, so setup stays the watchdog's.
+     */
+    async onInterrupted(roomId: string, senderSocketid: string) {
+        if (!(await this.isMember(roomId, senderSocketid))) return false;
+        if ((await this.store.getCallState(roomId)) === "connected") {
+            await this.store.setCallState(roomId, "interrupted", CONNECTED_STATE_TTL_MS);
+        }
+        return true;
+    }
 
-        // Your original behavior: ask both to start offer (you may choose only one in future)
-        user1.socket.emit("send-offer", { roomId });
-        user2.socket.emit("send-offer", { roomId });
+    /** A member's media connection came back: the call is connected again, for both sides. */
+    async onRecovered(roomId: string, senderSocketid: string) {
+        if (!(await this.isMember(roomId, senderSocketid))) return false;
+        if ((await this.store.getCallState(roomId)) === "interrupted") {
+            await this.store.setCallState(roomId, "connected", CONNECTED_STATE_TTL_MS);
+        }
+        return true;
+    }
 
-        return roomId;
+    /** The call is over (its pairing ended); late reports no longer revive it. */
+    async end(roomId: string) {
+        this.unwatch(roomId);
+        await this.store.setCallState(roomId, "ended", ENDED_STATE_TTL_MS);
     }
 
-    onOffer(roomId: string, sdp: string, senderSocketid: string) {
-        const room = this.rooms.get(roomId);
-        if (!room) return;
+    // Move the call forward (never back, and never out of `ended`); an
+    // interrupted call is as far along as a connected one
+    private async advance(roomId: string, state: CallState, ttlMs: number) {
+        const order: Record<CallState, number> = { pending: 0, negotiating: 1, connected: 2, interrupted: 2, ended: 3 };
+        const current = await this.store.getCallState(roomId);
+        if (current && order[current] >= order[state]) return;
+        await this.store.setCallState(roomId, state, ttlMs);
+    }
 
-        const receivingUser = room.user1.socket.id === senderSocketid ? room.user2 : room.user1;
-        receivingUser?.socket.emit("offer", { sdp, roomId });
+    // A room only has one watchdog per instance; a renegotiation (resume)
+    // restarts it for the new pair
+    private watch(roomId: string, user1Id: string, user2Id: string) {
+        this.unwatch(roomId);
+        const timer = setTimeout(async () => {
+            this.watchdogs.delete(roomId);
+            try {
+                const state = await this.store.getCallState(roomId);
+                if (state === "connected" || state === "interrupted" || state === "ended") return;
+                // the pair may have changed since (a resume started over elsewhere)
+                if ((await this.store.getPartner(user1Id)) !== user2Id) return;
+                console.warn(`[call] room ${roomId} did not connect within ${CALL_SETUP_TIMEOUT_MS}ms (${state ?? "unknown"})`);
+                this.setupFailed?.(roomId, user1Id, user2Id);
+            } catch (e: any) {
+                console.warn(`[call] setup watchdog failed for room ${roomId}`, e?.message);
+            }
+        }, CALL_SETUP_TIMEOUT_MS);
+        this.watchdogs.set(roomId, timer);
     }
 
-    onAnswer(roomId: string, sdp: string, senderSocketid: string) {
-        const room = this.rooms.get(roomId);
-        if (!room) return;
+    private unwatch(roomId: string) {
+        clearTimeout(this.watchdogs.get(roomId));
+        this.watchdogs.delete(roomId);
+    }
 
-        const receivingUser = room.user1.socket.id === senderSocketid ? room.user2 : room.user1;
-        receivingUser?.socket.emit("answer", { sdp, roomId });
+    /** True only if the socket is one of the two users paired in this room. */
+    async isMember(roomId: string, socketId: string) {
+        return (await this.store.getRoom(socketId)) === roomId;
     }
 
-    onIceCandidates(roomId: string, senderSocketid: string, candidate: any, type: "sender" | "receiver") {
-        const room = this.rooms.get(roomId);
-        if (!room) return;
+    // The other user in the room, or null if the sender is not a member
+    private async peerOf(roomId: string, senderSocketid: string): Promise<string | null> {
+        if (!(await this.isMember(roomId, senderSocketid))) return null;
+        return this.store.getPartner(senderSocketid);
+    }
 
-        const receivingUser = room.user1.socket.id === senderSocketid ? room.user2 : room.user1;
-        receivingUser.socket.emit("add-ice-candidate", ({candidate, type}));
+    // Signaling relays return false when the sender is not a member of the room
+    async onOffer(roomId: string, sdp: SessionDescription, senderSocketid: string) {
+        const receivingUser = await this.peerOf(roomId, senderSocketid);
+        if (!receivingUser) return false;
+
+        this.io.to(receivingUser).emit("offer", { sdp, roomId });
+        await this.advance(roomId, "negotiating", SETUP_STATE_TTL_MS);
+        return true;
     }
 
-    // NEW: teardown helpers for robust leave/next flows
-    teardownUser(roomId: string, userId: string) {
-        const room = this.rooms.get(roomId);
-        if (!room) {
-          return;
-        }
+    async onAnswer(roomId: string, sdp: SessionDescription, senderSocketid: string) {
+        const receivingUser = await this.peerOf(roomId, senderSocketid);
+        if (!receivingUser) return false;
 
-        const other = room.user1.socket.id === userId ? room.user2 : room.user1;
-        // Notify other side that this room is done (front-end can stop peer connection)
-        // Removed duplicate notification - handled in UserManager.handleLeave
-        this.rooms.delete(roomId);
+        this.io.to(receivingUser).emit("answer", { sdp, roomId });
+        return true;
     }
 
-    teardownRoom(roomId: string) {
-        const room = this.rooms.get(roomId);
-        if (!room) {
-          return;
-        }
+    async onIceCandidates(roomId: string, senderSocketid: string, candidate: IceCandidate) {
+        const receivingUser = await this.peerOf(roomId, senderSocketid);
+        if (!receivingUser) return false;
 
-        // Optionally notify both sides (guard if sockets are still connected)
-        // Removed duplicate notifications - handled in UserManager.handleLeave
-        this.rooms.delete(roomId);
+        this.io.to(receivingUser).emit("add-ice-candidate", { candidate });
+        return true;
     }
 
+    // Unguessable ids: room ids double as relay targets, so they must not be enumerable
     generate() {
-        return GLOBAL_ROOM_ID++;
+        return randomUUID();
     }
 }
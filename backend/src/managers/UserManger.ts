@@ -1,92 +1,243 @@
-import { Server, Socket } from "socket.io";
+import { randomUUID } from "crypto";
 import { RoomManager } from "./RoomManager";
-import { User } from "../type";
+import { User, AppServer, AppSocket, UserSnapshot, Ban } from "../type";
+import type { BanList } from "../moderation/BanList";
+import type { Block, BlockStore } from "../moderation/BlockStore";
+import { MemoryMatchStore, type MatchProfile, type MatchStore } from "../match/MatchStore";
+import { matchScore, strictScore } from "../match/scoring";
+import { SkipTracker } from "../match/skips";
+import { issueResumeToken, verifyResumeToken } from "../session/resumeToken";
+import { identityOf } from "../auth/identity";
+import { onValidated, notInRoom } from "../validation/handler";
 
 const QUEUE_TIMEOUT_MS = 5 * 60 * 1000; // 5 minutes
+const PAIRING_MEMORY_MS = 5 * 60 * 1000; // how long an ended pairing stays reportable
+const RELAX_SWEEP_MS = 5 * 1000; // how often waiting users are re-scored (and sent queue:status)
+const MATCH_RATE_WINDOW_MS = 10 * 60 * 1000; // recent matches the estimated wait is based on
+// How long a call survives one side dropping, waiting for it to reconnect
+const RESUME_GRACE_MS = Number(process.env.SESSION_RESUME_GRACE_MS || 30_000);
+// How long two people who skipped each other are kept apart (blocks are permanent)
+const SKIP_AVOID_TTL_MS = Number(process.env.SKIP_AVOID_TTL_MS || 24 * 60 * 60 * 1000);
+const MAX_BLOCKS = 500;
+// How long a call whose media connection dropped may try to recover (the
+// clients restart ICE) before both users are matched anew
+const CALL_RECOVERY_MS = Number(process.env.CALL_RECOVERY_MS || 20_000);
 
 export class UserManager {
+  // sockets connected to this process
   private users: User[];
-  private queue: string[];
 
-  // track bans, partner links, online, and per-user room
-  private bans: Map<string, Set<string>>;
-  private partnerOf: Map<string, string>;
-  private online: Set<string>;
-  private roomOf: Map<string, string>; // chat/match room id per user
+  // queue, bans, partner links, online, per-user room and recent pairings
+  // live in the store (shared by every instance when it is Redis)
+  private store: MatchStore;
 
   private queueEntryTime: Map<string, number>;
   private timeoutIntervals: Map<string, NodeJS.Timeout>;
+  private relaxSweep: NodeJS.Timeout;
+  // grace timers of users who dropped out of a call from this instance
+  private resumeTimers = new Map<string, NodeJS.Timeout>();
+  // serial quick skippers wait out a cooldown before they are requeued
+  private skips = new SkipTracker();
+  private cooldownTimers = new Map<string, NodeJS.Timeout>();
+  // users of this instance whose call reported a dropped media connection
+  private recoveryTimers = new Map<string, NodeJS.Timeout>();
+
+  // Store calls are async; state changes run one at a time, in arrival order,
+  // so a skip and a disconnect (say) never interleave half-way through.
+  private lock: Promise<void> = Promise.resolve();
 
   private roomManager: RoomManager;
-  private io: Server | null = null;
+  private io: AppServer;
+  private banList: BanList | null = null;
+  private blockStore: BlockStore | null = null;
+  private roomEnded: ((roomId: string) => void) | null = null;
 
-  constructor(io?: Server) {
+  constructor(io: AppServer, store: MatchStore = new MemoryMatchStore()) {
     this.users = [];
-    this.queue = [];
-    this.roomManager = new RoomManager();
+    this.io = io;
+    this.store = store;
+    this.roomManager = new RoomManager(io, store);
+    // A call that never connected is dropped like one that could not recover
+    this.roomManager.onSetupFailed((roomId, user1Id) => {
+      this.exclusive(() => this.dropFailedCall(user1Id, roomId, "setup-failed"));
+    });
 
-    this.bans = new Map();
-    this.partnerOf = new Map();
-    this.online = new Set();
-    this.roomOf = new Map();
     this.queueEntryTime = new Map();
     this.timeoutIntervals = new Map();
-    
-    if (io) {
-      this.io = io;
-    }
+
+    // A pair that is too weak a match now may be acceptable once either side
+    // has waited longer, without anyone new joining the queue
+    this.relaxSweep = setInterval(() => {
+      this.exclusive(async () => {
+        await this.matchQueued();
+        await this.sendQueueStatus();
+      });
+      this.skips.sweep();
+    }, RELAX_SWEEP_MS);
+    this.relaxSweep.unref();
   }
 
-  // Method to set the io instance after construction
-  setIo(io: Server) {
-    this.io = io;
+  // Moderator bans are enforced on connect and while waiting in the queue
+  setBanList(banList: BanList) {
+    this.banList = banList;
+  }
+
+  // Called once per call when it ends (skip, leave, block or disconnect)
+  onRoomEnded(listener: (roomId: string) => void) {
+    this.roomEnded = listener;
+  }
+
+  // Without one, blocks only last for the connection (as they do for guests)
+  setBlockStore(blockStore: BlockStore) {
+    this.blockStore = blockStore;
   }
 
   // accepts optional meta; safe to call as addUser(name, socket)
-  addUser(name: string, socket: Socket, meta?: Record<string, unknown>) {
-    this.users.push({ name, socket, meta, joinedAt: Date.now() });
-    this.online.add(socket.id);
+  // returns false (and disconnects the socket) if the user is banned.
+  // A valid `resumeToken` from a socket still within its grace window (or one
+  // the server has not yet seen drop) takes over that socket's call instead of
+  // joining the queue.
+  addUser(name: string, socket: AppSocket, meta?: User["meta"], resumeToken?: string) {
+    const user: User = { name, socket, userId: socket.data.userId ?? null, blocks: [], meta, joinedAt: Date.now() };
+    const ban = this.activeBan(this.snapshot(user));
+    if (ban) {
+      this.rejectBanned(user, ban);
+      return false;
+    }
+
+    this.users.push(user);
+    this.initHandlers(socket);
+    socket.emit("session", { resumeToken: issueResumeToken(socket.id), graceMs: RESUME_GRACE_MS });
+
+    const resumeFrom = resumeToken ? verifyResumeToken(resumeToken) : null;
 
     // join queue immediately (kept from your original flow)
-    if (!this.queue.includes(socket.id)) {
-      this.queue.push(socket.id);
-      this.startQueueTimeout(socket.id);
-    }
+    this.exclusive(async () => {
+      user.blocks = await this.loadBlocks(user);
+      this.sendBlocks(user);
+      await this.store.setOnline(this.profile(user));
+      if (resumeFrom && (await this.resume(resumeFrom, socket.id))) return;
 
-    socket.emit("lobby");
-    this.clearQueue(); // preserve your behavior
+      socket.emit("lobby");
 
-    this.initHandlers(socket);
+      // reconnecting does not cut a cooldown short (for signed-in users)
+      const cooldownMs = this.skips.cooldownLeft(identityOf(this.snapshot(user)));
+      if (cooldownMs) return this.startCooldown(socket.id, cooldownMs);
+
+      this.startQueueTimeout(socket.id);
+      await this.tryMatch(socket.id);
+      await this.sendQueueStatus([socket.id]);
+    });
+    return true;
   }
 
   removeUser(socketId: string) {
     // remove from list
     this.users = this.users.filter((x) => x.socket.id !== socketId);
 
-    // remove from queue (fix)
-    this.queue = this.queue.filter((x) => x !== socketId);
-
-    // clean presence
-    this.online.delete(socketId);
-
     // clean timeout tracking
     this.clearQueueTimeout(socketId);
+    this.clearCooldown(socketId);
+    this.clearRecovery(socketId);
+
+    this.exclusive(async () => {
+      // remove from queue and presence
+      await this.store.dequeue(socketId);
+      await this.store.setOffline(socketId);
+
+      // a call is kept open for a while in case this was a network blip
+      if (await this.store.getPartner(socketId)) {
+        await this.holdForResume(socketId);
+        return;
+      }
 
-    // if they were in a room/paired, handle like leave
-    this.handleLeave(socketId, "explicit-remove");
+      // otherwise handle like leave
+      await this.handleLeave(socketId, "disconnect");
+      await this.store.deletePairing(socketId);
+    });
   }
 
   // ---------- PUBLIC HELPERS (used by index.ts / chat integration) ----------
 
   /** Record current chat/match room for this user. Pass undefined to clear. */
-  setRoom(socketId: string, roomId?: string) {
-    if (!roomId) this.roomOf.delete(socketId);
-    else this.roomOf.set(socketId, roomId);
+  async setRoom(socketId: string, roomId?: string) {
+    if (!roomId) await this.store.clearRoom(socketId);
+    else await this.store.setRoom(socketId, roomId);
   }
 
   /** Get current room id (if any) for this user. */
-  getRoom(socketId: string): string | undefined {
-    return this.roomOf.get(socketId);
+  async getRoom(socketId: string): Promise<string | undefined> {
+    return (await this.store.getRoom(socketId)) ?? undefined;
+  }
+
+  /** True if the socket is one of the two users currently paired in `roomId`. */
+  isInRoom(socketId: string, roomId: string): Promise<boolean> {
+    return this.roomManager.isMember(roomId, socketId);
+  }
+
+  /**
+   * Current partner and room for this user, or the previous ones if that call
+   * ended less than PAIRING_MEMORY_MS ago.
+   */
+  async getPairing(socketId: string): Promise<{ partner: UserSnapshot; roomId: string } | undefined> {
+    const p = await this.store.getPairing(socketId);
+    return p ? { partner: p.partner, roomId: p.roomId } : undefined;
+  }
+
+  /** Socket-free snapshot of a connected user. */
+  describe(socketId: string): UserSnapshot | undefined {
+    const u = this.users.find((x) => x.socket.id === socketId);
+    return u ? this.snapshot(u) : undefined;
+  }
+
+  /**
+   * Never match these two people again (until the blocker unblocks); if they
+   * are still in a call together, end it the same way a skip would (the
+   * blocker is requeued, the partner notified).
+   */
+  block(socketId: string, blocked: UserSnapshot) {
+    return this.exclusive(async () => {
+      const user = this.users.find((x) => x.socket.id === socketId);
+      if (!user) return;
+
+      const identity = identityOf(blocked);
+      if (!user.blocks.some((b) => b.identity === identity)) {
+        const input = { owner: identityOf(this.snapshot(user)), identity, name: blocked.name };
+        const entry: Block =
+          user.userId && this.blockStore
+            ? await this.blockStore.add(input)
+            : { ...input, id: randomUUID(), createdAt: Date.now() };
+        user.blocks = [entry, ...user.blocks].slice(0, MAX_BLOCKS);
+        await this.store.setOnline(this.profile(user));
+        this.sendBlocks(user);
+      }
+
+      if ((await this.store.getPartner(socketId)) === blocked.socketId) await this.onNext(socketId, false);
+    });
+  }
+
+  /** Undo a block; false if this user has no block with that id. */
+  async unblock(socketId: string, blockId: string) {
+    let removed = false;
+    await this.exclusive(async () => {
+      const user = this.users.find((x) => x.socket.id === socketId);
+      if (!user || !user.blocks.some((b) => b.id === blockId)) return;
+
+      if (user.userId && this.blockStore) await this.blockStore.remove(user.userId, blockId);
+      user.blocks = user.blocks.filter((b) => b.id !== blockId);
+      removed = true;
+      await this.store.setOnline(this.profile(user));
+      this.sendBlocks(user);
+    });
+    return removed;
+  }
+
+  /** Disconnect every user on this instance matched by a (newly issued) ban. */
+  enforceBans() {
+    for (const user of [...this.users]) {
+      const ban = this.activeBan(this.snapshot(user));
+      if (ban) this.rejectBanned(user, ban);
+    }
   }
 
   /** Get user's display name quickly. */
@@ -96,12 +247,12 @@ export class UserManager {
   }
 
   /** Return a shallow user object plus roomId (if set). */
-  getUser(
+  async getUser(
     socketId: string
-  ): (User & { roomId?: string }) | undefined {
+  ): Promise<(User & { roomId?: string }) | undefined> {
     const u = this.users.find((x) => x.socket.id === socketId);
     if (!u) return undefined;
-    const roomId = this.roomOf.get(socketId);
+    const roomId = await this.store.getRoom(socketId);
     return roomId ? { ...u, roomId } : u;
   }
 
@@ -116,7 +267,7 @@ export class UserManager {
     this.queueEntryTime.set(socketId, Date.now());
 
     const timeout = setTimeout(() => {
-      this.handleQueueTimeout(socketId);
+      this.exclusive(() => this.handleQueueTimeout(socketId));
     }, QUEUE_TIMEOUT_MS);
 
     this.timeoutIntervals.set(socketId, timeout);
@@ -131,14 +282,14 @@ export class UserManager {
     this.queueEntryTime.delete(socketId);
   }
 
-  private handleQueueTimeout(socketId: string) {
+  private async handleQueueTimeout(socketId: string) {
     console.log(`[TIMEOUT] Handling timeout for socket: ${socketId}`);
     const user = this.users.find(u => u.socket.id === socketId);
-    if (!user || !this.online.has(socketId) || !this.queue.includes(socketId)) {
-      console.log(`[TIMEOUT] User not found, offline, or not in queue:`, {
+    const inQueue = await this.store.isQueued(socketId);
+    if (!user || !inQueue) {
+      console.log(`[TIMEOUT] User not found or not in queue:`, {
         user: !!user,
-        online: this.online.has(socketId),
-        inQueue: this.queue.includes(socketId)
+        inQueue
       });
       return;
     }
@@ -154,214 +305,499 @@ export class UserManager {
       console.error("Failed to emit queue:timeout:", error);
     }
 
-    this.queue = this.queue.filter(id => id !== socketId);
+    await this.store.dequeue(socketId);
     this.clearQueueTimeout(socketId);
   }
 
   // ---------- MATCHING / QUEUE (your logic kept intact) ----------
 
   clearQueue() {
-    console.log("inside clear queues");
-    console.log(this.queue.length);
-    if (this.queue.length < 2) {
+    return this.exclusive(() => this.matchQueued());
+  }
+
+  // Run a state change after every earlier one has finished
+  private exclusive(task: () => Promise<void>) {
+    const run = this.lock.then(task);
+    this.lock = run.catch((e) => console.error("[match] state update failed:", e?.message || e));
+    return this.lock;
+  }
+
+  // Give every waiting user of this instance (oldest first) another chance at
+  // a partner; each instance sweeps its own users, who can still be paired
+  // with anyone. Must only be called from inside exclusive().
+  private async matchQueued() {
+    for (const id of await this.store.queued()) {
+      if (!this.users.some((u) => u.socket.id === id)) continue;
+      if (await this.store.isQueued(id)) await this.tryMatch(id);
+    }
+  }
+
+  // Queue this user, or pair them with the partner the store atomically
+  // claimed for them (so no two instances can pair the same user).
+  // Must only be called from inside exclusive().
+  private async tryMatch(id: string) {
+    const partnerId = await this.store.enqueue(id);
+    if (!partnerId) return;
+
+    console.log("id is " + id + " " + partnerId);
+
+    // Users may be connected to any instance; their profile comes from the store
+    const [profile, partnerProfile] = await Promise.all([
+      this.store.getOnline(id),
+      this.store.getOnline(partnerId),
+    ]);
+    if (!profile || !partnerProfile) {
+      // one side went away in between: give the other one its place back
+      if (profile) await this.tryMatch(id);
+      if (partnerProfile) await this.tryMatch(partnerId);
       return;
     }
 
-    // find first valid pair not banned from each other and both online
-    let id1: string | undefined;
-    let id2: string | undefined;
+    console.log("creating roonm");
 
-    outer: for (let i = 0; i < this.queue.length; i++) {
-      const a = this.queue[i];
-      if (!this.online.has(a)) continue;
+    // clear timeouts for matched users
+    this.clearQueueTimeout(id);
+    this.clearQueueTimeout(partnerId);
 
-      const bansA = this.bans.get(a) || new Set<string>();
+    // remember links before anyone is told, so their first signaling is relayed
+    const roomId = this.roomManager.generate();
 
-      for (let j = i + 1; j < this.queue.length; j++) {
-        const b = this.queue[j];
-        if (!this.online.has(b)) continue;
+    await this.store.setPartners(id, partnerId);
+    await this.store.setRoom(id, roomId);
+    await this.store.setRoom(partnerId, roomId);
+    const startedAt = Date.now();
+    await this.store.savePairing(id, { partner: this.toSnapshot(partnerProfile), roomId, startedAt });
+    await this.store.savePairing(partnerId, { partner: this.toSnapshot(profile), roomId, startedAt });
+    await this.store.recordMatch(Date.now(), MATCH_RATE_WINDOW_MS);
 
-        const bansB = this.bans.get(b) || new Set<string>();
-        if (bansA.has(b) || bansB.has(a)) continue; // never rematch
+    await this.roomManager.negotiate(roomId, partnerId, id);
+  }
 
-        id1 = a;
-        id2 = b;
-        break outer;
-      }
-    }
+  // Tell waiting users of this instance (or just `only`) where they stand:
+  // place in line, how many waiting people fit their preferences, and a wait
+  // estimate from how many users were matched recently.
+  // Must only be called from inside exclusive().
+  private async sendQueueStatus(only?: string[]) {
+    const local = only ?? this.users.map((u) => u.socket.id);
+    if (!local.length) return;
+
+    const waiting = await this.store.waiting();
+    if (!waiting.length) return;
+    const now = Date.now();
+    const matchedPerMs = (2 * (await this.store.matchesSince(now - MATCH_RATE_WINDOW_MS))) / MATCH_RATE_WINDOW_MS;
+
+    waiting.forEach((self, i) => {
+      if (!local.includes(self.id)) return;
+      const strict = strictScore(self.criteria);
+      const compatible = waiting.filter(
+        (other) => other.id !== self.id && matchScore(self.criteria, other.criteria) >= strict
+      ).length;
+      const position = i + 1;
+      this.io.to(self.id).emit("queue:status", {
+        position,
+        waiting: waiting.length,
+        compatible,
+        etaMs: matchedPerMs > 0 ? Math.round(position / matchedPerMs) : null,
+      });
+    });
+  }
 
-    if (!id1 || !id2) {
-      return; // no valid pair right now
-    }
+  private snapshot(u: User): UserSnapshot {
+    return {
+      socketId: u.socket.id,
+      userId: u.userId,
+      name: u.name,
+      ip: u.meta?.ip ?? null,
+      ua: u.meta?.ua ?? null,
+    };
+  }
 
-    console.log("id is " + id1 + " " + id2);
+  // Snapshot plus the preferences this user is matched on and who they blocked
+  private profile(u: User): MatchProfile {
+    return {
+      ...this.snapshot(u),
+      language: u.meta?.language,
+      industry: u.meta?.industry,
+      skillBucket: u.meta?.skillBucket,
+      blocked: u.blocks.map((b) => b.identity),
+    };
+  }
 
-    const user1 = this.users.find((x) => x.socket.id === id1);
-    const user2 = this.users.find((x) => x.socket.id === id2);
-    if (!user1 || !user2) return;
+  // A failing store only costs the user their saved blocks for this session
+  private async loadBlocks(u: User): Promise<Block[]> {
+    if (!u.userId || !this.blockStore) return [];
+    return this.blockStore
+      .list(u.userId)
+      .then((blocks) => blocks.slice(0, MAX_BLOCKS))
+      .catch((e) => {
+        console.warn(`[blocks] failed to load for ${u.socket.id}`, e?.message);
+        return [];
+      });
+  }
 
-    console.log("creating roonm");
+  private sendBlocks(u: User) {
+    u.socket.emit("blocks", {
+      blocked: u.blocks.map(({ id, name, createdAt }) => ({ id, name, blockedAt: createdAt })),
+    });
+  }
 
-    // remove both from queue for pairing
-    this.queue = this.queue.filter((x) => x !== id1 && x !== id2);
+  private toSnapshot({ socketId, userId, name, ip, ua }: MatchProfile): UserSnapshot {
+    return { socketId, userId, name, ip, ua };
+  }
 
-    // clear timeouts for matched users
-    this.clearQueueTimeout(id1);
-    this.clearQueueTimeout(id2);
+  private activeBan(who: UserSnapshot): Ban | undefined {
+    return this.banList?.match({ identity: identityOf(who), ip: who.ip });
+  }
 
-    // create room and remember links
-    const roomId = this.roomManager.createRoom(user1, user2);
+  private rejectBanned(user: User, ban: Ban) {
+    try {
+      user.socket.emit("banned", { reason: ban.reason, expiresAt: ban.expiresAt });
+    } catch {}
+    user.socket.disconnect(true);
+  }
 
-    this.partnerOf.set(id1, id2);
-    this.partnerOf.set(id2, id1);
-    this.roomOf.set(id1, roomId);
-    this.roomOf.set(id2, roomId);
+  // Start the reportable grace period for both sides of a finished call
+  private async endPairing(a: string, b: string) {
+    const now = Date.now();
+    let roomId: string | null = null;
+    for (const id of [a, b]) {
+      const p = await this.store.getPairing(id);
+      if (p && !p.endedAt) {
+        await this.store.savePairing(id, { ...p, endedAt: now }, PAIRING_MEMORY_MS);
+        roomId = p.roomId;
+      }
+    }
+    if (roomId) {
+      await this.roomManager.end(roomId);
+      this.roomEnded?.(roomId);
+    }
+  }
 
-    // keep matching others if possible
-    this.clearQueue();
+  // Keep the two people of a call apart for SKIP_AVOID_TTL_MS. Rematch bans
+  // are kept per identity (the user id when signed in); each side's pairing
+  // holds the other's snapshot, so this works for partners on any instance.
+  private async avoidPartners(a: string, b: string) {
+    const [pa, pb] = await Promise.all([this.store.getPairing(a), this.store.getPairing(b)]);
+    await this.store.avoidEachOther(
+      pb ? identityOf(pb.partner) : a,
+      pa ? identityOf(pa.partner) : b,
+      SKIP_AVOID_TTL_MS
+    );
   }
 
   // Try to get this user matched immediately (used after requeue)
-  private tryMatchFor(userId: string) {
-    if (!this.online.has(userId)) return;
-    if (!this.queue.includes(userId)) this.queue.push(userId);
-    this.clearQueue();
+  private async tryMatchFor(userId: string) {
+    if (!(await this.store.isOnline(userId))) return;
+    await this.tryMatch(userId);
+  }
+
+  // ---------- SESSION RESUME ----------
+
+  // Keep the dropped user's links and tell the partner to wait; the call ends
+  // normally if no resume claims the hold within RESUME_GRACE_MS.
+  private async holdForResume(socketId: string) {
+    // the stored hold outlives the timer, so the timer always finds it unless
+    // a resume took it first (a crashed instance's holds just expire)
+    await this.store.holdSession(socketId, RESUME_GRACE_MS * 2);
+
+    const partnerId = await this.store.getPartner(socketId);
+    if (partnerId) {
+      // the partner's media broke along with this user's; the resume decides
+      this.clearRecovery(partnerId);
+      this.io.to(partnerId).emit("partner:reconnecting", { graceMs: RESUME_GRACE_MS });
+    }
+
+    const timer = setTimeout(() => {
+      this.resumeTimers.delete(socketId);
+      this.exclusive(async () => {
+        if (!(await this.store.takeHeldSession(socketId))) return; // resumed
+        await this.handleLeave(socketId, "disconnect");
+        await this.store.deletePairing(socketId);
+      });
+    }, RESUME_GRACE_MS);
+    this.resumeTimers.set(socketId, timer);
+  }
+
+  // Move a held call from the dropped socket to its replacement and have both
+  // sides renegotiate media. False if there is nothing left to resume, in which
+  // case the new socket joins the queue like any other.
+  // Must only be called from inside exclusive().
+  private async resume(oldId: string, newId: string) {
+    const partnerId = await this.store.getPartner(oldId);
+    const [profile, partnerPairing] = await Promise.all([
+      this.store.getOnline(newId),
+      partnerId ? this.store.getPairing(partnerId) : null,
+    ]);
+    // The partner's pairing holds who dropped; a signed-in user only resumes as themselves
+    if (partnerPairing && (partnerPairing.partner.userId ?? null) !== (profile?.userId ?? null)) return false;
+
+    // A client that noticed its connection drop may be back before the server
+    // has (it only does at the ping timeout): the old socket still has its
+    // call, unheld, and is taken over and closed
+    const held = await this.store.takeHeldSession(oldId);
+    if (!held && !partnerId) return false;
+    clearTimeout(this.resumeTimers.get(oldId));
+    this.resumeTimers.delete(oldId);
+    if (!held) {
+      this.clearRecovery(oldId);
+      this.io.in(oldId).disconnectSockets(true);
+    }
+
+    const roomId = await this.store.getRoom(oldId);
+    const partnerOnline = partnerId ? await this.store.isOnline(partnerId) : false;
+    if (!partnerId || !roomId || !profile || !partnerOnline) {
+      await this.handleLeave(oldId, "disconnect");
+      await this.store.deletePairing(oldId);
+      return false;
+    }
+
+    await this.store.clearPartners(oldId);
+    await this.store.clearRoom(oldId);
+    await this.store.setPartners(newId, partnerId);
+    await this.store.setRoom(newId, roomId);
+
+    const pairing = await this.store.getPairing(oldId);
+    if (pairing) await this.store.savePairing(newId, pairing);
+    await this.store.deletePairing(oldId);
+    if (partnerPairing) {
+      await this.store.savePairing(partnerId, { ...partnerPairing, partner: this.toSnapshot(profile) });
+    }
+
+    this.io.to(newId).emit("session:resumed", { roomId, peerId: partnerId });
+    this.io.to(partnerId).emit("partner:resumed", { peerId: newId });
+    await this.roomManager.negotiate(roomId, newId, partnerId);
+    return true;
   }
 
   // ---------- LEAVE / DISCONNECT / NEXT ----------
 
   // Unified leave handler. If a user leaves, partner is requeued + notified.
-  private handleLeave(leaverId: string, reason: string = "leave") {
-    const partnerId = this.partnerOf.get(leaverId);
+  private async handleLeave(leaverId: string, reason: string = "leave") {
+    const partnerId = await this.store.getPartner(leaverId);
 
     // always remove leaver from queue
-    this.queue = this.queue.filter((x) => x !== leaverId);
+    await this.store.dequeue(leaverId);
 
     // clean leaver links
-    const leaverRoomId = this.roomOf.get(leaverId);
-    if (leaverRoomId) {
-      this.roomManager.teardownUser(leaverRoomId, leaverId);
-      this.roomOf.delete(leaverId);
-    }
-    this.partnerOf.delete(leaverId);
+    await this.store.clearRoom(leaverId);
+    await this.store.clearPartners(leaverId);
 
     if (partnerId) {
-      // ban each other to prevent rematch
-      const bansA = this.bans.get(leaverId) || new Set<string>();
-      const bansB = this.bans.get(partnerId) || new Set<string>();
-      bansA.add(partnerId);
-      bansB.add(leaverId);
-      this.bans.set(leaverId, bansA);
-      this.bans.set(partnerId, bansB);
+      await this.endPairing(leaverId, partnerId);
+
+      // keep them apart for a while to prevent an immediate rematch
+      await this.avoidPartners(leaverId, partnerId);
 
       // clean partner side of the room/pair
-      const partnerRoomId = this.roomOf.get(partnerId);
-      if (partnerRoomId) {
-        this.roomManager.teardownUser(partnerRoomId, partnerId);
-        this.roomOf.delete(partnerId);
-      }
-      this.partnerOf.delete(partnerId);
+      await this.store.clearRoom(partnerId);
+      await this.store.clearPartners(partnerId);
 
       // keep partner waiting: requeue + notify + try match now
-      const partnerUser = this.users.find((u) => u.socket.id === partnerId);
-      if (partnerUser && this.online.has(partnerId)) {
-        partnerUser.socket.emit("partner:left", { reason });
-        if (!this.queue.includes(partnerId)) this.queue.push(partnerId);
-        this.tryMatchFor(partnerId);
+      // (the partner may be connected to another instance)
+      if (await this.store.isOnline(partnerId)) {
+        this.io.to(partnerId).emit("partner:left", { reason });
+        await this.tryMatchFor(partnerId);
       }
     }
   }
 
-  private onNext(userId: string) {
-    const partnerId = this.partnerOf.get(userId);
+  // `countSkip` is false when the call ends for another reason (a block)
+  private async onNext(userId: string, countSkip = true) {
+    const partnerId = await this.store.getPartner(userId);
     if (!partnerId) {
       // user is not currently paired; just ensure they are queued
-      if (!this.queue.includes(userId)) this.queue.push(userId);
-      this.tryMatchFor(userId);
+      if (!this.cooldownTimers.has(userId)) await this.tryMatchFor(userId);
       return;
     }
+    const pairing = await this.store.getPairing(userId);
 
     // Get room ID to send system message BEFORE teardown
-    const roomId = this.roomOf.get(userId);
-    
+    const roomId = await this.store.getRoom(userId);
+
     // Send system message that peer left the chat BEFORE teardown to ensure users are still in the chat room
-    if (roomId && this.io) {
+    if (roomId) {
       const chatRoom = `chat:${roomId}`;
-      this.io.to(chatRoom).emit("chat:system", { 
-        text: "Peer left the chat", 
-        ts: Date.now() 
+      this.io.to(chatRoom).emit("chat:system", {
+        id: randomUUID(),
+        text: "Peer left the chat",
+        ts: Date.now()
       });
     }
-    
-    // Ban both users from matching with each other again
-    const bansU = this.bans.get(userId) || new Set<string>();
-    const bansP = this.bans.get(partnerId) || new Set<string>();
-    bansU.add(partnerId);
-    bansP.add(userId);
-    this.bans.set(userId, bansU);
-    this.bans.set(partnerId, bansP);
+
+    await this.endPairing(userId, partnerId);
+
+    // Keep both users from being rematched for a while
+    await this.avoidPartners(userId, partnerId);
 
     // Teardown room and clear mappings
-    if (roomId) this.roomManager.teardownRoom(roomId);
-    this.partnerOf.delete(userId);
-    this.partnerOf.delete(partnerId);
-    this.roomOf.delete(userId);
-    this.roomOf.delete(partnerId);
-
-    // Requeue caller immediately; notify partner their match ended
-    if (!this.queue.includes(userId)) this.queue.push(userId);
-    const partnerUser = this.users.find((u) => u.socket.id === partnerId);
-    if (partnerUser && this.online.has(partnerId)) {
-      partnerUser.socket.emit("partner:left", { reason: "next" });
-      // Also requeue partner automatically
-      if (!this.queue.includes(partnerId)) this.queue.push(partnerId);
+    await this.store.clearPartners(userId, partnerId);
+    await this.store.clearRoom(userId, partnerId);
+
+    // Notify partner their match ended
+    const partnerOnline = await this.store.isOnline(partnerId);
+    if (partnerOnline) {
+      this.io.to(partnerId).emit("partner:left", { reason: "next" });
+    }
+
+    // Try to rematch the caller right away (unless they earned a cooldown),
+    // then requeue partner automatically
+    const cooldownMs = countSkip ? this.recordSkip(userId, pairing?.startedAt) : 0;
+    if (cooldownMs) this.startCooldown(userId, cooldownMs);
+    else await this.tryMatchFor(userId);
+    if (partnerOnline) await this.tryMatch(partnerId);
+  }
+
+  // ---------- CALL RECOVERY ----------
+
+  // Each side reports its own interruption, so the timer runs on the instance
+  // of whoever reported it. Either side recovering means both did: the room's
+  // call state goes back to connected, which every timer checks before firing
+  private startRecovery(socketId: string, roomId: string) {
+    if (this.recoveryTimers.has(socketId)) return;
+    const timer = setTimeout(() => {
+      this.recoveryTimers.delete(socketId);
+      this.exclusive(() => this.dropFailedCall(socketId, roomId, "connection-failed"));
+    }, CALL_RECOVERY_MS);
+    this.recoveryTimers.set(socketId, timer);
+  }
+
+  private clearRecovery(socketId: string) {
+    clearTimeout(this.recoveryTimers.get(socketId));
+    this.recoveryTimers.delete(socketId);
+  }
+
+  // Nobody is to blame for a connection that dropped for good (or never came
+  // up): the call ends without counting a skip or keeping the two apart, and
+  // both are queued again.
+  // Must only be called from inside exclusive().
+  private async dropFailedCall(socketId: string, roomId: string, reason: "connection-failed" | "setup-failed") {
+    if ((await this.store.getRoom(socketId)) !== roomId) return; // ended meanwhile
+    const partnerId = await this.store.getPartner(socketId);
+    if (!partnerId) return;
+    // recovered meanwhile, possibly reported to another instance
+    if (reason === "connection-failed" && (await this.store.getCallState(roomId)) !== "interrupted") return;
+    // one side dropped out of the server too: the call is the resume's to end
+    if ((await this.store.isSessionHeld(socketId)) || (await this.store.isSessionHeld(partnerId))) return;
+    this.clearRecovery(partnerId);
+
+    await this.endPairing(socketId, partnerId);
+    await this.store.clearPartners(socketId, partnerId);
+    await this.store.clearRoom(socketId, partnerId);
+
+    for (const id of [socketId, partnerId]) {
+      if (!(await this.store.isOnline(id))) continue;
+      this.io.to(id).emit("partner:left", { reason });
+      await this.tryMatch(id);
     }
+  }
 
-    // Try to rematch the caller right away
-    this.tryMatchFor(userId);
+  // ---------- SKIP COOLDOWNS ----------
+
+  // Skip analytics for this user; returns the cooldown they earned, if any
+  private recordSkip(socketId: string, startedAt?: number) {
+    const user = this.users.find((x) => x.socket.id === socketId);
+    if (!user) return 0;
+    const verdict = this.skips.record(
+      identityOf(this.snapshot(user)),
+      startedAt ? Date.now() - startedAt : Infinity
+    );
+    if (verdict.cooldownMs) {
+      console.warn(
+        `[skip] cooling down ${socketId} for ${verdict.cooldownMs}ms ` +
+          `(${verdict.skipsPerMinute.toFixed(1)}/min, ${verdict.quickSkips} quick)`
+      );
+    }
+    return verdict.cooldownMs;
+  }
+
+  // Keep the user out of the queue for `ms`, then queue them as usual
+  private startCooldown(socketId: string, ms: number) {
+    this.clearCooldown(socketId);
+    this.io.to(socketId).emit("queue:cooldown", { remainingMs: ms });
+    const timer = setTimeout(() => {
+      this.cooldownTimers.delete(socketId);
+      this.exclusive(async () => {
+        if (!this.users.some((u) => u.socket.id === socketId)) return;
+        if (await this.store.getPartner(socketId)) return;
+        this.startQueueTimeout(socketId);
+        await this.tryMatchFor(socketId);
+        await this.sendQueueStatus([socketId]);
+      });
+    }, ms);
+    this.cooldownTimers.set(socketId, timer);
+  }
+
+  private clearCooldown(socketId: string) {
+    clearTimeout(this.cooldownTimers.get(socketId));
+    this.cooldownTimers.delete(socketId);
   }
 
   // ---------- SOCKET HANDLERS ----------
 
-  initHandlers(socket: Socket) {
-    // WebRTC signaling passthrough
-    socket.on("offer", ({ sdp, roomId }: { sdp: string; roomId: string }) => {
-      this.roomManager.onOffer(roomId, sdp, socket.id);
+  initHandlers(socket: AppSocket) {
+    // WebRTC signaling passthrough (only between the two members of the room)
+    onValidated(socket, "offer", async ({ sdp, roomId }) => {
+      if (!(await this.roomManager.onOffer(roomId, sdp, socket.id))) return notInRoom();
+    });
+
+    onValidated(socket, "answer", async ({ sdp, roomId }) => {
+      if (!(await this.roomManager.onAnswer(roomId, sdp, socket.id))) return notInRoom();
+    });
+
+    onValidated(socket, "add-ice-candidate", async ({ candidate, roomId }) => {
+      if (!(await this.roomManager.onIceCandidates(roomId, socket.id, candidate))) return notInRoom();
     });
 
-    socket.on("answer", ({ sdp, roomId }: { sdp: string; roomId: string }) => {
-      this.roomManager.onAnswer(roomId, sdp, socket.id);
+    // media connection health: up for the first time, then dropped and
+    // recovered while the clients restart ICE
+    onValidated(socket, "call:connected", async ({ roomId }) => {
+      if (!(await this.roomManager.onConnected(roomId, socket.id))) return notInRoom();
     });
 
-    socket.on("add-ice-candidate", ({ candidate, roomId, type }) => {
-      this.roomManager.onIceCandidates(roomId, socket.id, candidate, type);
+    onValidated(socket, "call:interrupted", async ({ roomId }) => {
+      if (!(await this.roomManager.onInterrupted(roomId, socket.id))) return notInRoom();
+      this.startRecovery(socket.id, roomId);
+    });
+
+    onValidated(socket, "call:recovered", async ({ roomId }) => {
+      if (!(await this.roomManager.onRecovered(roomId, socket.id))) return notInRoom();
+      this.clearRecovery(socket.id);
+      // the partner's timer, if it runs here (elsewhere it sees the call connected)
+      const partnerId = await this.store.getPartner(socket.id);
+      if (partnerId) this.clearRecovery(partnerId);
     });
 
     // user actions
     socket.on("queue:next", () => {
-      this.onNext(socket.id);
+      this.exclusive(() => this.onNext(socket.id));
     });
 
     socket.on("queue:leave", () => {
       // user wants to leave matching; remove from queue and clean links
-      this.queue = this.queue.filter((x) => x !== socket.id);
       this.clearQueueTimeout(socket.id);
-      this.handleLeave(socket.id, "leave-button");
+      this.clearCooldown(socket.id);
+      this.exclusive(async () => {
+        await this.store.dequeue(socket.id);
+        await this.handleLeave(socket.id, "leave-button");
+      });
     });
 
     socket.on("queue:retry", () => {
-      if (!this.queue.includes(socket.id) && this.online.has(socket.id)) {
-        this.queue.push(socket.id);
+      this.exclusive(async () => {
+        if (await this.store.isQueued(socket.id)) return;
+        const user = this.users.find((u) => u.socket.id === socket.id);
+        if (!user) return;
+
+        const cooldownMs = this.skips.cooldownLeft(identityOf(this.snapshot(user)));
+        if (cooldownMs) return this.startCooldown(socket.id, cooldownMs);
+
         this.startQueueTimeout(socket.id);
         socket.emit("queue:waiting");
-        this.clearQueue();
-      }
+        await this.tryMatch(socket.id);
+        await this.sendQueueStatus([socket.id]);
+      });
     });
 
-    socket.on("disconnect", () => {
-      // treat as a leave, but do not remove the partner; requeue them
-      this.handleLeave(socket.id, "disconnect");
-      this.online.delete(socket.id);
-    });
+    // disconnects are handled by removeUser (called from index.ts)
   }
 }
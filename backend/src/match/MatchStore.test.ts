@@ -0,0 +1,81 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { MemoryMatchStore, type MatchProfile } from "./MatchStore";
+import { RELAX_WINDOW_MS } from "./scoring";
+
+function profile(socketId: string, extra: Partial<MatchProfile> = {}): MatchProfile {
+  return { socketId, name: socketId, ...extra };
+}
+
+async function storeWith(...profiles: MatchProfile[]) {
+  const store = new MemoryMatchStore();
+  for (const p of profiles) await store.setOnline(p);
+  return store;
+}
+
+test("queues the first user and pairs the second with them", async () => {
+  const store = await storeWith(profile("a"), profile("b"));
+  assert.equal(await store.enqueue("a"), null);
+  assert.deepEqual(await store.queued(), ["a"]);
+  assert.equal(await store.enqueue("b"), "a");
+  assert.deepEqual(await store.queued(), []);
+});
+
+test("prefers the waiting user with more shared preferences", async () => {
+  const store = await storeWith(
+    profile("de", { language: "de" }),
+    profile("en", { language: "en" }),
+    profile("me", { language: "en" })
+  );
+  await store.enqueue("de");
+  await store.enqueue("en");
+  assert.equal(await store.enqueue("me"), "en");
+  assert.deepEqual(await store.queued(), ["de"]);
+});
+
+test("relaxes a waiting user's requirements over time", async (t) => {
+  let now = 1_000_000;
+  t.mock.method(Date, "now", () => now);
+  const store = await storeWith(profile("en", { language: "en" }), profile("de", { language: "de" }));
+
+  assert.equal(await store.enqueue("en"), null);
+  assert.equal(await store.enqueue("de"), null);
+  assert.deepEqual(await store.queued(), ["en", "de"]);
+
+  // each keeps their place; once both have waited out the window anyone will do
+  now += RELAX_WINDOW_MS;
+  assert.equal(await store.enqueue("de"), "en");
+});
+
+test("never pairs avoided or blocked people, nor one person with themselves", async () => {
+  const store = await storeWith(
+    profile("a", { userId: "u1" }),
+    profile("a2", { userId: "u1" }),
+    profile("b"),
+    profile("c", { blocked: ["u1"] })
+  );
+  await store.avoidEachOther("u1", "b", 60_000);
+  await store.enqueue("a");
+  assert.equal(await store.enqueue("a2"), null);
+  assert.equal(await store.enqueue("c"), null);
+  assert.deepEqual(await store.queued(), ["a", "a2", "c"]);
+  assert.equal(await store.enqueue("b"), "c");
+  assert.deepEqual(await store.queued(), ["a", "a2"]);
+});
+
+test("drops queued users who went offline", async () => {
+  const store = await storeWith(profile("a"), profile("b"));
+  await store.enqueue("a");
+  await store.setOffline("a");
+  assert.equal(await store.enqueue("b"), null);
+  assert.deepEqual(await store.queued(), ["b"]);
+});
+
+test("a held session is taken exactly once", async () => {
+  const store = new MemoryMatchStore();
+  await store.holdSession("a", 60_000);
+  assert.equal(await store.isSessionHeld("a"), true);
+  assert.equal(await store.takeHeldSession("a"), true);
+  assert.equal(await store.takeHeldSession("a"), false);
+  assert.equal(await store.isSessionHeld("a"), false);
+});
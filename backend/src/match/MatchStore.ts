@@ -0,0 +1,432 @@
+import { randomUUID } from "crypto";
+import { appRedis, redisEnabled } from "../cache/redis";
+import { PRESENCE_PREFIX, isPresent, presenceDown, presenceUp } from "../cache/presence";
+import type { UserSnapshot } from "../type";
+import { Matchmaker } from "./Matchmaker";
+import { bestCandidate, type Candidate, type MatchCriteria } from "./scoring";
+import { identityOf } from "../auth/identity";
+
+// What other instances need to know to pair a user: who they are, the
+// preferences (language / industry / skill) they are scored on and the
+// identities they blocked
+export type MatchProfile = UserSnapshot & MatchCriteria & { blocked?: string[] };
+
+/** True if either side blocked the other. */
+export function blocksEither(a: MatchProfile, b: MatchProfile) {
+  return !!a.blocked?.includes(identityOf(b)) || !!b.blocked?.includes(identityOf(a));
+}
+
+// Who a user was last paired with; kept briefly after the call ends so a
+// report filed right after a skip can still be verified.
+export interface Pairing {
+  partner: UserSnapshot;
+  roomId: string;
+  startedAt?: number;
+  endedAt?: number;
+}
+
+// Where a room's call is: `pending` until the first offer, `negotiating` until
+// a client reports its media connection up, then `connected`; `interrupted`
+// while a connected call's media is being restored; `ended` once the pairing
+// is over (see RoomManager)
+export type CallState = "pending" | "negotiating" | "connected" | "interrupted" | "ended";
+
+/**
+ * Matching state that UserManager reads and writes: who is online, who is
+ * waiting (in arrival order), who is paired with whom and in which room, and
+ * which pairs must never be rematched. Sockets themselves stay in process;
+ * with the Redis store every backend instance sees the same state.
+ */
+export interface MatchStore {
+  /** Mark online, with the profile other instances need to pair this user. */
+  setOnline(user: MatchProfile): Promise<void>;
+  setOffline(id: string): Promise<void>;
+  isOnline(id: string): Promise<boolean>;
+  getOnline(id: string): Promise<MatchProfile | null>;
+
+  /**
+   * Atomically claim the best-scoring waiting partner that both sides accept
+   * at their current wait times (see ./scoring), skipping avoided and blocked
+   * pairs, and return it (neither stays
+   * queued). Without one, the user is queued (keeping their place if already
+   * waiting) and null is returned.
+   */
+  enqueue(id: string): Promise<string | null>;
+  dequeue(id: string): Promise<void>;
+  isQueued(id: string): Promise<boolean>;
+  /** Waiting ids, oldest first. */
+  queued(): Promise<string[]>;
+  /** Waiting online users with their preferences and enqueue time, oldest first. */
+  waiting(): Promise<Candidate[]>;
+
+  /** Count a match (for the queue's estimated wait) and forget ones older than `keepMs`. */
+  recordMatch(at: number, keepMs: number): Promise<void>;
+  matchesSince(since: number): Promise<number>;
+
+  setPartners(a: string, b: string): Promise<void>;
+  getPartner(id: string): Promise<string | null>;
+  clearPartners(a: string, b?: string): Promise<void>;
+
+  setRoom(id: string, roomId: string): Promise<void>;
+  getRoom(id: string): Promise<string | null>;
+  clearRoom(a: string, b?: string): Promise<void>;
+
+  /** Don't match these two identities (see auth/identity) with each other for `ttlMs`. */
+  avoidEachOther(a: string, b: string, ttlMs: number): Promise<void>;
+  isAvoided(a: string, b: string): Promise<boolean>;
+
+  /** Remember a pairing; with `ttlMs` it is forgotten after that long. */
+  savePairing(id: string, pairing: Pairing, ttlMs?: number): Promise<void>;
+  getPairing(id: string): Promise<Pairing | null>;
+  deletePairing(id: string): Promise<void>;
+
+  /** Keep a disconnected user's call open for a resume, for at most `ttlMs`. */
+  holdSession(id: string, ttlMs: number): Promise<void>;
+  /**
+   * Atomically end the hold; true only for the one caller that ended it, so a
+   * resume and the grace window running out never both win.
+   */
+  takeHeldSession(id: string): Promise<boolean>;
+  /** Whether a hold is still open, without ending it. */
+  isSessionHeld(id: string): Promise<boolean>;
+
+  /** Record where a room's call is; forgotten after `ttlMs`. */
+  setCallState(roomId: string, state: CallState, ttlMs: number): Promise<void>;
+  getCallState(roomId: string): Promise<CallState | null>;
+}
+
+// ---------- In-memory (dev) ----------
+
+export class MemoryMatchStore implements MatchStore {
+  private online = new Map<string, MatchProfile>();
+  // id -> enqueue time (Map keeps insertion, i.e. arrival, order)
+  private queue = new Map<string, number>();
+  private partnerOf = new Map<string, string>();
+  private roomOf = new Map<string, string>();
+  // identity -> identities it must not be matched with -> until when
+  private bans = new Map<string, Map<string, number>>();
+  private nextBanSweep = 0;
+  private pairings = new Map<string, { pairing: Pairing; expiresAt?: number }>();
+  private matchTimes: number[] = [];
+  private held = new Map<string, number>(); // id -> hold expiry
+  private calls = new Map<string, { state: CallState; expiresAt: number }>();
+  private nextCallSweep = 0;
+
+  async setOnline(user: MatchProfile) {
+    this.online.set(user.socketId, user);
+  }
+
+  async setOffline(id: string) {
+    this.online.delete(id);
+  }
+
+  async isOnline(id: string) {
+    return this.online.has(id);
+  }
+
+  async getOnline(id: string) {
+    return this.online.get(id) ?? null;
+  }
+
+  // Same scoring as the Redis script; synchronous, hence atomic
+  async enqueue(id: string) {
+    const profile = this.online.get(id);
+    if (!profile) return null;
+
+    const me = identityOf(profile);
+    const candidates = [];
+    for (const [other, since] of this.queue) {
+      if (other === id) continue;
+      const criteria = this.online.get(other);
+      if (!criteria) {
+        this.queue.delete(other);
+        continue;
+      }
+      const them = identityOf(criteria);
+      if (them === me || this.isAvoidedSync(me, them) || blocksEither(profile, criteria)) continue;
+      candidates.push({ id: other, criteria, since });
+    }
+
+    const now = Date.now();
+    const self = { id, criteria: profile, since: this.queue.get(id) ?? now };
+    const partner = bestCandidate(self, candidates, now);
+    if (partner) {
+      this.queue.delete(partner.id);
+      this.queue.delete(id);
+      return partner.id;
+    }
+
+    if (!this.queue.has(id)) this.queue.set(id, now);
+    return null;
+  }
+
+  async dequeue(id: string) {
+    this.queue.delete(id);
+  }
+
+  async isQueued(id: string) {
+    return this.queue.has(id);
+  }
+
+  async queued() {
+    return [...this.queue.keys()];
+  }
+
+  async waiting() {
+    const list: Candidate[] = [];
+    for (const [id, since] of this.queue) {
+      const criteria = this.online.get(id);
+      if (criteria) list.push({ id, criteria, since });
+    }
+    return list;
+  }
+
+  async recordMatch(at: number, keepMs: number) {
+    this.matchTimes = this.matchTimes.filter((t) => t > at - keepMs);
+    this.matchTimes.push(at);
+  }
+
+  async matchesSince(since: number) {
+    return this.matchTimes.filter((t) => t > since).length;
+  }
+
+  async setPartners(a: string, b: string) {
+    this.partnerOf.set(a, b);
+    this.partnerOf.set(b, a);
+  }
+
+  async getPartner(id: string) {
+    return this.partnerOf.get(id) ?? null;
+  }
+
+  async clearPartners(a: string, b?: string) {
+    this.partnerOf.delete(a);
+    if (b) this.partnerOf.delete(b);
+  }
+
+  async setRoom(id: string, roomId: string) {
+    this.roomOf.set(id, roomId);
+  }
+
+  async getRoom(id: string) {
+    return this.roomOf.get(id) ?? null;
+  }
+
+  async clearRoom(a: string, b?: string) {
+    this.roomOf.delete(a);
+    if (b) this.roomOf.delete(b);
+  }
+
+  async avoidEachOther(a: string, b: string, ttlMs: number) {
+    const until = Date.now() + ttlMs;
+    this.sweepBans();
+    for (const [from, to] of [[a, b], [b, a]]) {
+      const bans = this.bans.get(from) || new Map<string, number>();
+      bans.set(to, until);
+      this.bans.set(from, bans);
+    }
+  }
+
+  async isAvoided(a: string, b: string) {
+    return this.isAvoidedSync(a, b);
+  }
+
+  private isAvoidedSync(a: string, b: string) {
+    const now = Date.now();
+    return (this.bans.get(a)?.get(b) ?? 0) > now || (this.bans.get(b)?.get(a) ?? 0) > now;
+  }
+
+  // Guests' identities never come back, so expired entries are dropped
+  // wholesale about once a minute rather than left to pile up
+  private sweepBans() {
+    const now = Date.now();
+    if (now < this.nextBanSweep) return;
+    this.nextBanSweep = now + 60_000;
+    for (const [identity, bans] of this.bans) {
+      for (const [other, until] of bans) if (until <= now) bans.delete(other);
+      if (!bans.size) this.bans.delete(identity);
+    }
+  }
+
+  async savePairing(id: string, pairing: Pairing, ttlMs?: number) {
+    this.pairings.set(id, { pairing, expiresAt: ttlMs ? Date.now() + ttlMs : undefined });
+  }
+
+  async getPairing(id: string) {
+    const entry = this.pairings.get(id);
+    if (!entry) return null;
+    if (entry.expiresAt && entry.expiresAt <= Date.now()) {
+      this.pairings.delete(id);
+      return null;
+    }
+    return entry.pairing;
+  }
+
+  async deletePairing(id: string) {
+    this.pairings.delete(id);
+  }
+
+  async holdSession(id: string, ttlMs: number) {
+    this.held.set(id, Date.now() + ttlMs);
+  }
+
+  async takeHeldSession(id: string) {
+    const expiresAt = this.held.get(id);
+    this.held.delete(id);
+    return !!expiresAt && expiresAt > Date.now();
+  }
+
+  async isSessionHeld(id: string) {
+    return (this.held.get(id) ?? 0) > Date.now();
+  }
+
+  // Rooms are never read again once their call is over, so expired entries
+  // are dropped about once a minute rather than on read
+  async setCallState(roomId: string, state: CallState, ttlMs: number) {
+    const now = Date.now();
+    if (now >= this.nextCallSweep) {
+      this.nextCallSweep = now + 60_000;
+      for (const [id, call] of this.calls) if (call.expiresAt <= now) this.calls.delete(id);
+    }
+    this.calls.set(roomId, { state, expiresAt: now + ttlMs });
+  }
+
+  async getCallState(roomId: string) {
+    const call = this.calls.get(roomId);
+    return call && call.expiresAt > Date.now() ? call.state : null;
+  }
+}
+
+// ---------- Redis ----------
+
+// Matchmaker's `online` hash has no expiry, so liveness also requires the
+// socket's presence key (refreshed by the connection heartbeat). Users of an
+// instance that died stop counting as online once their presence expires.
+export class RedisMatchStore implements MatchStore {
+  constructor(private mm: Matchmaker) {}
+
+  async setOnline(user: MatchProfile) {
+    await presenceUp(user.socketId, user);
+    await this.mm.setOnline(user.socketId, JSON.stringify(user));
+  }
+
+  async setOffline(id: string) {
+    await this.mm.setOffline(id);
+    await presenceDown(id);
+  }
+
+  async isOnline(id: string) {
+    return (await this.mm.isOnline(id)) && (await isPresent(id));
+  }
+
+  async getOnline(id: string) {
+    const raw = await this.mm.getOnline(id);
+    if (!raw || !(await isPresent(id))) return null;
+    return JSON.parse(raw) as MatchProfile;
+  }
+
+  async enqueue(id: string) {
+    if (!(await this.isOnline(id))) return null;
+    return this.mm.enqueue(id);
+  }
+
+  dequeue(id: string) {
+    return this.mm.dequeue(id);
+  }
+
+  isQueued(id: string) {
+    return this.mm.isQueued(id);
+  }
+
+  queued() {
+    return this.mm.queued();
+  }
+
+  async waiting() {
+    const list: Candidate[] = [];
+    for (const { id, since, profile } of await this.mm.queuedWithProfiles()) {
+      if (profile) list.push({ id, since, criteria: JSON.parse(profile) as MatchProfile });
+    }
+    return list;
+  }
+
+  // Members must be unique; the time alone could collide across instances
+  recordMatch(at: number, keepMs: number) {
+    return this.mm.recordMatch(`${at}:${randomUUID()}`, at, keepMs);
+  }
+
+  matchesSince(since: number) {
+    return this.mm.matchesSince(since);
+  }
+
+  setPartners(a: string, b: string) {
+    return this.mm.setPartners(a, b);
+  }
+
+  getPartner(id: string) {
+    return this.mm.getPartner(id);
+  }
+
+  clearPartners(a: string, b?: string) {
+    return this.mm.clearPartners(a, b);
+  }
+
+  setRoom(id: string, roomId: string) {
+    return this.mm.setRoom(id, roomId);
+  }
+
+  getRoom(id: string) {
+    return this.mm.getRoom(id);
+  }
+
+  clearRoom(a: string, b?: string) {
+    return this.mm.clearRoom(a, b);
+  }
+
+  avoidEachOther(a: string, b: string, ttlMs: number) {
+    return this.mm.banEachOther(a, b, ttlMs);
+  }
+
+  isAvoided(a: string, b: string) {
+    return this.mm.isBanned(a, b);
+  }
+
+  savePairing(id: string, pairing: Pairing, ttlMs?: number) {
+    return this.mm.setPairing(id, JSON.stringify(pairing), ttlMs);
+  }
+
+  async getPairing(id: string) {
+    const raw = await this.mm.getPairing(id);
+    return raw ? (JSON.parse(raw) as Pairing) : null;
+  }
+
+  deletePairing(id: string) {
+    return this.mm.clearPairing(id);
+  }
+
+  holdSession(id: string, ttlMs: number) {
+    return this.mm.hold(id, ttlMs);
+  }
+
+  takeHeldSession(id: string) {
+    return this.mm.takeHold(id);
+  }
+
+  isSessionHeld(id: string) {
+    return this.mm.isHeld(id);
+  }
+
+  setCallState(roomId: string, state: CallState, ttlMs: number) {
+    return this.mm.setCallState(roomId, state, ttlMs);
+  }
+
+  async getCallState(roomId: string) {
+    return (await this.mm.getCallState(roomId)) as CallState | null;
+  }
+}
+
+/** Redis-backed store (via Matchmaker) when REDIS_URL is set, in-memory otherwise. */
+export function createMatchStore(): MatchStore {
+  if (!redisEnabled) return new MemoryMatchStore();
+  return new RedisMatchStore(new Matchmaker(appRedis, { presencePrefix: PRESENCE_PREFIX }));
+}
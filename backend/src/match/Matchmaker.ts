@@ -1,33 +1,145 @@
 import type { Redis } from "ioredis";
+import { MATCH_WEIGHTS, RELAX_WINDOW_MS } from "./scoring";
 
-type UserMeta = {
+export type UserMeta = {
   id: string; // socket.id
   language?: string;
   industry?: string;
   skillBucket?: string;
 };
 
+// The waiting queue: a sorted set of ids scored by enqueue time (oldest first)
+export const QUEUE_KEY = "QG";
+
+// The script runs atomically inside Redis, so a waiting user is claimed by
+// exactly one enqueue. Scoring mirrors ./scoring (weights and relax window are
+// passed in), reading each side's preferences from their `online` profile.
+// Rematch bans are per identity: the profile's userId, else the socket id
+// (as in auth/identity); one person is never paired with themselves, nor with
+// anyone either side lists in its profile's `blocked`.
+//
+// It touches `avoid:*` and presence keys derived from ids, so it assumes a
+// single (non-cluster) Redis, like the adapter does.
+
+// KEYS: queue. ARGV: id, now (ms), max candidates looked at, presence key
+// prefix ("" to skip the presence check), language / industry / skill weights,
+// relax window (ms). Returns the claimed partner id, or nil after queueing the
+// caller (keeping their enqueue time if already waiting).
+const ENQUEUE = `
+local queue = KEYS[1]
+local id, now, limit, presence = ARGV[1], tonumber(ARGV[2]), tonumber(ARGV[3]), ARGV[4]
+local weights = { language = tonumber(ARGV[5]), industry = tonumber(ARGV[6]), skillBucket = tonumber(ARGV[7]) }
+local relax = tonumber(ARGV[8])
+
+local function alive(who)
+  if redis.call("HEXISTS", "online", who) == 0 then return false end
+  return presence == "" or redis.call("EXISTS", presence .. who) == 1
+end
+
+local function criteria(who)
+  local raw = redis.call("HGET", "online", who)
+  if not raw then return {} end
+  local ok, c = pcall(cjson.decode, raw)
+  if ok and type(c) == "table" then return c end
+  return {}
+end
+
+local function set(v) return type(v) == "string" and v ~= "" end
+
+local function score(a, b)
+  local s = 0
+  for field, w in pairs(weights) do
+    if set(a[field]) and a[field] == b[field] then s = s + w end
+  end
+  return s
+end
+
+local function required(c, since)
+  local left = 1 - (now - since) / relax
+  if left <= 0 then return 0 end
+  local strict = 0
+  for field, w in pairs(weights) do
+    if set(c[field]) then strict = strict + w end
+  end
+  return strict * left
+end
+
+local function identity(who, c)
+  if set(c.userId) then return c.userId end
+  return who
+end
+
+-- skip entries are scored by when they expire
+local function avoided(a, b)
+  local untilMs = redis.call("ZSCORE", "avoid:" .. a, b)
+  return untilMs and tonumber(untilMs) > now
+end
+
+local function blocks(c, other)
+  if type(c.blocked) ~= "table" then return false end
+  for _, blocked in ipairs(c.blocked) do
+    if blocked == other then return true end
+  end
+  return false
+end
+
+local me = criteria(id)
+local myIdentity = identity(id, me)
+local need = required(me, tonumber(redis.call("ZSCORE", queue, id)) or now)
+local best, bestScore = nil, -1
+
+local entries = redis.call("ZRANGE", queue, 0, limit - 1, "WITHSCORES")
+for i = 1, #entries, 2 do
+  local other, since = entries[i], tonumber(entries[i + 1])
+  if other ~= id then
+    if not alive(other) then
+      redis.call("ZREM", queue, other)
+    else
+      local c = criteria(other)
+      local theirs = identity(other, c)
+      if theirs ~= myIdentity
+        and not avoided(myIdentity, theirs) and not avoided(theirs, myIdentity)
+        and not blocks(me, theirs) and not blocks(c, myIdentity) then
+        local s = score(me, c)
+        if s >= need and s >= required(c, since) and s > bestScore then
+          best, bestScore = other, s
+        end
+      end
+    end
+  end
+end
+
+if best then
+  redis.call("ZREM", queue, best, id)
+  return best
+end
+redis.call("ZADD", queue, "NX", now, id)
+return nil
+`;
+
+// How many of the oldest waiting users one enqueue considers
+const PROBE_LIMIT = 200;
+
 export class Matchmaker {
-  constructor(private redis: Redis) {}
+  constructor(private redis: Redis, private opts: { presencePrefix?: string } = {}) {}
 
-  private shardKey(meta: UserMeta) {
-    const language = meta.language || 'any';
-    const industry = meta.industry || 'any';
-    const skillBucket = meta.skillBucket || 'any';
-    return `Q:${language}:${industry}:${skillBucket}`;
-  }
-  private langKey(lang: string) { return `QL:${lang}`; }
-  private indKey(ind: string) { return `QI:${ind}`; }
-  private globalKey() { return `QG`; }
+  private queueKey() { return QUEUE_KEY; }
 
   // Presence, partner, bans
-  private onlineKey() { return `online`; } // HASH socketId -> "1"
+  private onlineKey() { return `online`; } // HASH socketId -> profile JSON
   private partnerOfKey() { return `partnerOf`; } // HASH socketId -> partnerId
   private roomOfKey() { return `roomOf`; } // HASH socketId -> roomId
-  private banKey(id: string) { return `ban:${id}`; } // SET of banned partner ids
+  private avoidKey(identity: string) { return `avoid:${identity}`; } // ZSET of identities not to rematch, scored by expiry
+  private pairingKey(id: string) { return `pairing:${id}`; } // JSON of the last pairing
+  private matchesKey() { return `matches`; } // ZSET of recent matches by time
+  private heldKey(id: string) { return `held:${id}`; } // set while a disconnected user may resume
+  private callKey(roomId: string) { return `call:${roomId}`; } // the room's call lifecycle state
 
-  async setOnline(id: string) {
-    await this.redis.hset(this.onlineKey(), id, "1");
+  async setOnline(id: string, info = "1") {
+    await this.redis.hset(this.onlineKey(), id, info);
+  }
+  async getOnline(id: string) {
+    return this.redis.hget(this.onlineKey(), id);
   }
   async setOffline(id: string) {
     await this.redis.hdel(this.onlineKey(), id);
@@ -59,60 +171,121 @@ export class Matchmaker {
     if (b) await this.redis.hdel(this.roomOfKey(), b);
   }
 
-  async banEachOther(a: string, b: string) {
-    await this.redis.sadd(this.banKey(a), b);
-    await this.redis.sadd(this.banKey(b), a);
+  // Expired entries are trimmed on write, and a key lives only as long as its
+  // newest entry, so the sets of guests who never come back go away too
+  async banEachOther(a: string, b: string, ttlMs: number) {
+    const now = Date.now();
+    const multi = this.redis.multi();
+    for (const [from, to] of [[a, b], [b, a]]) {
+      multi
+        .zadd(this.avoidKey(from), now + ttlMs, to)
+        .zremrangebyscore(this.avoidKey(from), "-inf", now)
+        .pexpire(this.avoidKey(from), ttlMs);
+    }
+    await multi.exec();
   }
-  private async isBanned(a: string, b: string) {
+  async isBanned(a: string, b: string) {
     const result = await this.redis
       .multi()
-      .sismember(this.banKey(a), b)
-      .sismember(this.banKey(b), a)
+      .zscore(this.avoidKey(a), b)
+      .zscore(this.avoidKey(b), a)
       .exec();
-    const [ab, ba] = result ?? [[null, 0], [null, 0]];
-    const abv = Number(ab?.[1] ?? 0), bav = Number(ba?.[1] ?? 0);
-    return abv === 1 || bav === 1;
-  }
-
-  // Enqueue user; attempt fast match with bounded fallbacks
-  async enqueue(meta: UserMeta): Promise<string | null> {
-    const primary = this.shardKey(meta);
-    const fallbacks: string[] = [
-      primary,
-      ...(meta.language ? [this.langKey(meta.language)] : []),
-      ...(meta.industry ? [this.indKey(meta.industry)] : []),
-      this.globalKey(),
-    ];
-
-    // Try to find a partner: bounded probes, lazy-skip offline/banned
-    for (const key of fallbacks) {
-      // Pop until we either match or the queue yields nothing viable
-      while (true) {
-        const candidate = await this.redis.rpop(key);
-        if (!candidate) break;
-        const online = await this.isOnline(candidate);
-        if (!online) continue; // lazy skip
-        const banned = await this.isBanned(meta.id, candidate);
-        if (banned) continue;
-        // Found a partner
-        return candidate;
-      }
-    }
+    const now = Date.now();
+    return (result ?? []).some(([, until]) => Number(until ?? 0) > now);
+  }
 
-    // No partner found; push to queues (primary + light secondary)
-    await this.redis.lpush(primary, meta.id);
-    if (meta.language) {
-      await this.redis.lpush(this.langKey(meta.language), meta.id);
-    }
-    if (meta.industry) {
-      await this.redis.lpush(this.indKey(meta.industry), meta.id);
-    }
-    await this.redis.lpush(this.globalKey(), meta.id);
-    return null;
+  async setPairing(id: string, json: string, ttlMs?: number) {
+    if (ttlMs) await this.redis.set(this.pairingKey(id), json, "PX", ttlMs);
+    else await this.redis.set(this.pairingKey(id), json);
+  }
+  async getPairing(id: string) {
+    return this.redis.get(this.pairingKey(id));
+  }
+  async clearPairing(id: string) {
+    await this.redis.del(this.pairingKey(id));
+  }
+
+  async hold(id: string, ttlMs: number) {
+    await this.redis.set(this.heldKey(id), "1", "PX", ttlMs);
+  }
+  // DEL reports whether the key was still there, so only one caller gets true
+  async takeHold(id: string) {
+    return (await this.redis.del(this.heldKey(id))) === 1;
+  }
+  async isHeld(id: string) {
+    return (await this.redis.exists(this.heldKey(id))) === 1;
+  }
+
+  async setCallState(roomId: string, state: string, ttlMs: number) {
+    await this.redis.set(this.callKey(roomId), state, "PX", ttlMs);
+  }
+  async getCallState(roomId: string) {
+    return this.redis.get(this.callKey(roomId));
+  }
+
+  /**
+   * Claim the best-scoring waiting user that both sides currently accept
+   * (online, not banned either way, preferences relaxed enough; oldest first
+   * among equals). Without one, the caller is queued (keeping an earlier
+   * enqueue time if already waiting) and null is returned. Preferences are
+   * read from the profile stored with setOnline.
+   */
+  async enqueue(id: string): Promise<string | null> {
+    const partner = await this.redis.eval(
+      ENQUEUE,
+      1,
+      this.queueKey(),
+      id,
+      Date.now(),
+      PROBE_LIMIT,
+      this.opts.presencePrefix ?? "",
+      MATCH_WEIGHTS.language,
+      MATCH_WEIGHTS.industry,
+      MATCH_WEIGHTS.skillBucket,
+      RELAX_WINDOW_MS
+    );
+    return typeof partner === "string" ? partner : null;
+  }
+
+  /** Remove from the queue (on match elsewhere, leave or disconnect). */
+  async dequeue(id: string) {
+    await this.redis.zrem(this.queueKey(), id);
+  }
+
+  /** When this id started waiting, or null if it is not queued. */
+  async queuedSince(id: string) {
+    const score = await this.redis.zscore(this.queueKey(), id);
+    return score === null ? null : Number(score);
+  }
+
+  async isQueued(id: string) {
+    return (await this.queuedSince(id)) !== null;
+  }
+
+  /** Everyone waiting, oldest first. */
+  async queued() {
+    return this.redis.zrange(this.queueKey(), 0, -1);
+  }
+
+  /** Everyone waiting with their enqueue time and `online` profile (null if gone), oldest first. */
+  async queuedWithProfiles() {
+    const flat = await this.redis.zrange(this.queueKey(), 0, -1, "WITHSCORES");
+    const entries: { id: string; since: number }[] = [];
+    for (let i = 0; i < flat.length; i += 2) entries.push({ id: flat[i], since: Number(flat[i + 1]) });
+    if (!entries.length) return [];
+    const profiles = await this.redis.hmget(this.onlineKey(), ...entries.map((e) => e.id));
+    return entries.map((e, i) => ({ ...e, profile: profiles[i] }));
+  }
+
+  async recordMatch(member: string, at: number, keepMs: number) {
+    await this.redis
+      .multi()
+      .zadd(this.matchesKey(), at, member)
+      .zremrangebyscore(this.matchesKey(), "-inf", at - keepMs)
+      .exec();
   }
 
-  async requeue(id: string, meta: UserMeta) {
-    // Simple requeue to primary for immediate rematch attempt by caller
-    await this.redis.lpush(this.shardKey(meta), id);
+  async matchesSince(since: number) {
+    return this.redis.zcount(this.matchesKey(), `(${since}`, "+inf");
   }
 }
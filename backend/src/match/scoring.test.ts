@@ -0,0 +1,49 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { RELAX_WINDOW_MS, bestCandidate, matchScore, requiredScore, strictScore } from "./scoring";
+
+const en = { language: "en", industry: "tech", skillBucket: "senior" };
+
+test("scores the preferences both sides share", () => {
+  assert.equal(matchScore(en, en), 7);
+  assert.equal(matchScore(en, { ...en, skillBucket: "junior" }), 6);
+  assert.equal(matchScore(en, { language: "de", industry: "tech" }), 2);
+  // a preference only counts when it is set
+  assert.equal(matchScore({}, {}), 0);
+});
+
+test("a shared language outweighs industry and skill together", () => {
+  const sameLanguage = matchScore(en, { language: "en" });
+  const sameRest = matchScore(en, { industry: "tech", skillBucket: "senior" });
+  assert.ok(sameLanguage > sameRest);
+});
+
+test("the required score relaxes linearly to zero over the window", () => {
+  assert.equal(strictScore(en), 7);
+  assert.equal(requiredScore(en, 0), 7);
+  assert.equal(requiredScore(en, RELAX_WINDOW_MS / 2), 3.5);
+  assert.equal(requiredScore(en, RELAX_WINDOW_MS), 0);
+  assert.equal(requiredScore(en, RELAX_WINDOW_MS * 2), 0);
+  assert.equal(requiredScore({}, 0), 0);
+});
+
+test("picks the best candidate both sides accept, oldest first on ties", () => {
+  const now = 1_000_000;
+  const self = { id: "me", criteria: en, since: now };
+  const candidates = [
+    { id: "de", criteria: { language: "de" }, since: now - RELAX_WINDOW_MS },
+    { id: "en1", criteria: en, since: now - 10 },
+    { id: "en2", criteria: en, since: now - 5 },
+  ];
+  assert.equal(bestCandidate(self, candidates, now)?.id, "en1");
+});
+
+test("nobody is accepted below either side's required score", () => {
+  const now = 1_000_000;
+  const picky = { id: "picky", criteria: en, since: now };
+  const other = { id: "other", criteria: { language: "en" }, since: now - RELAX_WINDOW_MS };
+  assert.equal(bestCandidate(picky, [other], now), null);
+  // once the picky user has waited long enough, a partial match is fine
+  const waited = { ...picky, since: now - RELAX_WINDOW_MS * 0.5 };
+  assert.equal(bestCandidate(waited, [other], now)?.id, "other");
+});
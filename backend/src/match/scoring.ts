@@ -0,0 +1,59 @@
+import type { UserMeta } from "./Matchmaker";
+
+export type MatchCriteria = Omit<UserMeta, "id">;
+
+// Points a pair earns for each preference both sides set to the same value.
+// A shared language outweighs industry and skill together, so the best match
+// still follows the old shard → language → industry → anyone order.
+export const MATCH_WEIGHTS = { language: 4, industry: 2, skillBucket: 1 } as const;
+
+// How long a waiting user's requirements take to relax from "everything I set
+// must match" to "anyone". Kept well under the 5 minute queue timeout so no
+// one times out while a partner is waiting.
+export const RELAX_WINDOW_MS = 2 * 60 * 1000;
+
+const FIELDS = Object.keys(MATCH_WEIGHTS) as (keyof typeof MATCH_WEIGHTS)[];
+
+/** Score of a perfect match for this user: the weights of the preferences they set. */
+export function strictScore(c: MatchCriteria) {
+  return FIELDS.reduce((sum, f) => (c[f] ? sum + MATCH_WEIGHTS[f] : sum), 0);
+}
+
+/** How well two users' preferences agree. */
+export function matchScore(a: MatchCriteria, b: MatchCriteria) {
+  return FIELDS.reduce((sum, f) => (a[f] && a[f] === b[f] ? sum + MATCH_WEIGHTS[f] : sum), 0);
+}
+
+/**
+ * Lowest score this user accepts after waiting `waitedMs`: their strict score
+ * at first, falling linearly to 0 over RELAX_WINDOW_MS.
+ */
+export function requiredScore(c: MatchCriteria, waitedMs: number) {
+  const left = 1 - waitedMs / RELAX_WINDOW_MS;
+  return left <= 0 ? 0 : strictScore(c) * left;
+}
+
+export interface Candidate {
+  id: string;
+  criteria: MatchCriteria;
+  since: number; // when they started waiting
+}
+
+/**
+ * The candidate both sides currently accept with the highest score; among
+ * equal scores the earliest in `candidates` (callers pass oldest first).
+ */
+export function bestCandidate(self: Candidate, candidates: Iterable<Candidate>, now = Date.now()) {
+  const need = requiredScore(self.criteria, now - self.since);
+  let best: Candidate | null = null;
+  let bestScore = -1;
+  for (const c of candidates) {
+    const score = matchScore(self.criteria, c.criteria);
+    if (score < need || score < requiredScore(c.criteria, now - c.since)) continue;
+    if (score > bestScore) {
+      best = c;
+      bestScore = score;
+    }
+  }
+  return best;
+}
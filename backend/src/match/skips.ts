@@ -0,0 +1,67 @@
+// A skip this soon after the call started counts as a quick skip
+const QUICK_SKIP_MS = Number(process.env.QUICK_SKIP_MS || 5_000);
+// Skips are judged over this window
+const SKIP_WINDOW_MS = 2 * 60 * 1000;
+// Quick skips within the window before any cooldown applies
+const FREE_QUICK_SKIPS = 3;
+// Cooldown for the first quick skip past the free ones; doubles with each
+// further one, up to MAX_COOLDOWN_MS
+const BASE_COOLDOWN_MS = 5_000;
+const MAX_COOLDOWN_MS = 60_000;
+
+export interface SkipVerdict {
+  timeToSkipMs: number;
+  skipsPerMinute: number; // over the window
+  quickSkips: number; // within the window, this one included
+  cooldownMs: number; // 0 = requeue right away
+}
+
+interface History {
+  skips: { at: number; quick: boolean }[];
+  cooldownUntil: number;
+}
+
+/**
+ * Skips per identity (see auth/identity) and the cooldowns they earn. Anyone
+ * can skip as often as they like; only skipping within seconds, again and
+ * again, keeps a user out of the queue for a short while. Kept per instance.
+ */
+export class SkipTracker {
+  private history = new Map<string, History>();
+
+  record(identity: string, timeToSkipMs: number, now = Date.now()): SkipVerdict {
+    const h = this.history.get(identity) ?? { skips: [], cooldownUntil: 0 };
+    h.skips = h.skips.filter((s) => s.at > now - SKIP_WINDOW_MS);
+    h.skips.push({ at: now, quick: timeToSkipMs < QUICK_SKIP_MS });
+    this.history.set(identity, h);
+
+    const quickSkips = h.skips.filter((s) => s.quick).length;
+    const over = quickSkips - FREE_QUICK_SKIPS;
+    const cooldownMs =
+      h.skips[h.skips.length - 1].quick && over > 0
+        ? Math.min(MAX_COOLDOWN_MS, BASE_COOLDOWN_MS * 2 ** (over - 1))
+        : 0;
+    if (cooldownMs) h.cooldownUntil = now + cooldownMs;
+
+    return {
+      timeToSkipMs,
+      skipsPerMinute: (h.skips.length * 60_000) / SKIP_WINDOW_MS,
+      quickSkips,
+      cooldownMs,
+    };
+  }
+
+  /** Time left on this identity's cooldown (ms), or 0. */
+  cooldownLeft(identity: string, now = Date.now()) {
+    return Math.max(0, (this.history.get(identity)?.cooldownUntil ?? 0) - now);
+  }
+
+  /** Forget identities with no skips in the window and no cooldown running. */
+  sweep(now = Date.now()) {
+    for (const [identity, h] of this.history) {
+      if (h.cooldownUntil <= now && h.skips.every((s) => s.at <= now - SKIP_WINDOW_MS)) {
+        this.history.delete(identity);
+      }
+    }
+  }
+}
@@ -0,0 +1,131 @@
+import { randomUUID } from "crypto";
+import { Schema, model } from "mongoose";
+import { connectMongo, mongoEnabled } from "../db/mongo";
+import type { Ban, NewBanRequest } from "../type";
+
+export interface BanStore {
+  /** Bans that have not expired yet. */
+  listActive(): Promise<Ban[]>;
+  create(ban: Ban): Promise<void>;
+  remove(id: string): Promise<void>;
+}
+
+// ---------- In-memory (dev) ----------
+
+export class MemoryBanStore implements BanStore {
+  private bans = new Map<string, Ban>();
+
+  async listActive() {
+    const now = Date.now();
+    return [...this.bans.values()].filter((b) => b.expiresAt === null || b.expiresAt > now);
+  }
+
+  async create(ban: Ban) {
+    this.bans.set(ban.id, ban);
+  }
+
+  async remove(id: string) {
+    this.bans.delete(id);
+  }
+}
+
+// ---------- MongoDB ----------
+
+const banSchema = new Schema(
+  {
+    _id: { type: String, required: true },
+    kind: { type: String, enum: ["user", "ip"], required: true },
+    value: { type: String, required: true, index: true },
+    reason: { type: String },
+    reportId: { type: String },
+    createdAt: { type: Number, required: true },
+    expiresAt: { type: Number, default: null },
+  },
+  { versionKey: false }
+);
+
+const BanModel = model("Ban", banSchema);
+
+export class MongoBanStore implements BanStore {
+  async listActive() {
+    const docs = await BanModel.find({
+      $or: [{ expiresAt: null }, { expiresAt: { $gt: Date.now() } }],
+    }).lean();
+    return docs.map(({ _id, ...rest }) => ({ id: String(_id), ...rest }) as Ban);
+  }
+
+  async create({ id, ...rest }: Ban) {
+    await BanModel.create({ _id: id, ...rest });
+  }
+
+  async remove(id: string) {
+    await BanModel.deleteOne({ _id: id });
+  }
+}
+
+/** MongoDB-backed store when MONGO_URI is set, in-memory otherwise. */
+export function createBanStore(): BanStore {
+  if (!mongoEnabled) return new MemoryBanStore();
+  connectMongo();
+  return new MongoBanStore();
+}
+
+// ---------- Cached ban list ----------
+
+/**
+ * Synchronous view over the active bans so the connect and matching paths can
+ * check them without a round trip. Writes go through to the backing store.
+ */
+export class BanList {
+  private bans = new Map<string, Ban>();
+
+  constructor(private store: BanStore) {}
+
+  /** (Re)read the active bans, e.g. after another instance changed them. */
+  async load() {
+    const active = await this.store.listActive();
+    this.bans = new Map(active.map((ban) => [ban.id, ban]));
+  }
+
+  /** Active ban matching this user identity or IP, if any. */
+  match(subject: { identity?: string; ip?: string | null }): Ban | undefined {
+    for (const ban of this.active()) {
+      if (ban.kind === "user" && ban.value === subject.identity) return ban;
+      if (ban.kind === "ip" && subject.ip && ban.value === subject.ip) return ban;
+    }
+    return undefined;
+  }
+
+  /** Non-expired bans, newest first; expired ones are dropped from the cache. */
+  active(): Ban[] {
+    const now = Date.now();
+    for (const [id, ban] of this.bans) {
+      if (ban.expiresAt !== null && ban.expiresAt <= now) this.bans.delete(id);
+    }
+    return [...this.bans.values()].sort((a, b) => b.createdAt - a.createdAt);
+  }
+
+  async add({ kind, value, reason, reportId, durationMinutes }: NewBanRequest): Promise<Ban> {
+    const createdAt = Date.now();
+    const ban: Ban = {
+      id: randomUUID(),
+      kind,
+      value,
+      reason,
+      reportId,
+      createdAt,
+      expiresAt: durationMinutes ? createdAt + durationMinutes * 60_000 : null,
+    };
+    await this.store.create(ban);
+    this.bans.set(ban.id, ban);
+    return ban;
+  }
+
+  /** Returns false if no such ban was active. */
+  async lift(id: string): Promise<boolean> {
+    if (!this.bans.has(id)) return false;
+    await this.store.remove(id);
+    this.bans.delete(id);
+    return true;
+  }
+}
@@ -0,0 +1,97 @@
+import { randomUUID } from "crypto";
+import { Schema, model } from "mongoose";
+import { connectMongo, mongoEnabled } from "../db/mongo";
+
+// One person a user never wants to be matched with again. Both sides are
+// identities (see auth/identity); `name` is what the blocker saw at the time.
+export interface Block {
+  id: string;
+  owner: string;
+  identity: string;
+  name: string;
+  createdAt: number;
+}
+
+export type NewBlock = Omit<Block, "id" | "createdAt">;
+
+/** Signed-in users' block lists, kept across sessions. */
+export interface BlockStore {
+  /** Newest first. */
+  list(owner: string): Promise<Block[]>;
+  /** Blocking someone twice keeps (and returns) the first entry. */
+  add(input: NewBlock): Promise<Block>;
+  /** Returns false if the owner has no such block. */
+  remove(owner: string, id: string): Promise<boolean>;
+}
+
+// ---------- In-memory (dev) ----------
+
+export class MemoryBlockStore implements BlockStore {
+  private blocks = new Map<string, Block[]>();
+
+  async list(owner: string) {
+    return [...(this.blocks.get(owner) ?? [])];
+  }
+
+  async add(input: NewBlock) {
+    const existing = this.blocks.get(input.owner) ?? [];
+    const found = existing.find((b) => b.identity === input.identity);
+    if (found) return found;
+
+    const block: Block = { ...input, id: randomUUID(), createdAt: Date.now() };
+    this.blocks.set(input.owner, [block, ...existing]);
+    return block;
+  }
+
+  async remove(owner: string, id: string) {
+    const existing = this.blocks.get(owner) ?? [];
+    const rest = existing.filter((b) => b.id !== id);
+    this.blocks.set(owner, rest);
+    return rest.length !== existing.length;
+  }
+}
+
+// ---------- MongoDB ----------
+
+const blockSchema = new Schema(
+  {
+    _id: { type: String, required: true },
+    owner: { type: String, required: true, index: true },
+    identity: { type: String, required: true },
+    name: { type: String, required: true },
+    createdAt: { type: Number, required: true },
+  },
+  { versionKey: false }
+);
+blockSchema.index({ owner: 1, identity: 1 }, { unique: true });
+
+const BlockModel = model("Block", blockSchema);
+
+export class MongoBlockStore implements BlockStore {
+  async list(owner: string) {
+    const docs = await BlockModel.find({ owner }).sort({ createdAt: -1 }).lean();
+    return docs.map(({ _id, ...rest }) => ({ id: String(_id), ...rest }) as Block);
+  }
+
+  async add(input: NewBlock) {
+    const doc = await BlockModel.findOneAndUpdate(
+      { owner: input.owner, identity: input.identity },
+      { $setOnInsert: { _id: randomUUID(), ...input, createdAt: Date.now() } },
+      { upsert: true, new: true }
+    ).lean();
+    const { _id, ...rest } = doc!;
+    return { id: String(_id), ...rest } as Block;
+  }
+
+  async remove(owner: string, id: string) {
+    const { deletedCount } = await BlockModel.deleteOne({ _id: id, owner });
+    return deletedCount === 1;
+  }
+}
+
+/** MongoDB-backed store when MONGO_URI is set, in-memory otherwise. */
+export function createBlockStore(): BlockStore {
+  if (!mongoEnabled) return new MemoryBlockStore();
+  connectMongo();
+  return new MongoBlockStore();
+}
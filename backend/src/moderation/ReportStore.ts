@@ -0,0 +1,192 @@
+import { randomUUID } from "crypto";
+import { Schema, model, type SchemaDefinitionProperty } from "mongoose";
+import { connectMongo, mongoEnabled } from "../db/mongo";
+import type {
+  ChatEvidenceItem,
+  Report,
+  ReportFilter,
+  ReportResolution,
+  ReportSummary,
+  UserSnapshot,
+} from "../type";
+
+// Who was involved, captured at report time (the sockets may be gone later)
+export type ReportSubject = UserSnapshot;
+
+export type NewReport = Omit<Report, "id" | "status" | "resolution" | "createdAt">;
+
+const DEFAULT_LIST_LIMIT = 50;
+const MAX_LIST_LIMIT = 200;
+
+export interface ReportStore {
+  create(input: NewReport): Promise<Report>;
+  /** True if `reporterSocketId` already filed a report for this room. */
+  exists(reporterSocketId: string, roomId: string): Promise<boolean>;
+  /** Newest first. */
+  list(filter: ReportFilter): Promise<ReportSummary[]>;
+  get(id: string): Promise<Report | null>;
+  /** Returns the updated report, or null if it does not exist. */
+  resolve(id: string, resolution: Omit<ReportResolution, "resolvedAt">): Promise<Report | null>;
+}
+
+function summarize({ evidence, ...rest }: Report): ReportSummary {
+  return { ...rest, evidenceCount: evidence.chat.length };
+}
+
+function clampLimit(limit?: number) {
+  return Math.min(Math.max(limit || DEFAULT_LIST_LIMIT, 1), MAX_LIST_LIMIT);
+}
+
+// ---------- In-memory (dev) ----------
+
+export class MemoryReportStore implements ReportStore {
+  private reports = new Map<string, Report>();
+
+  async create(input: NewReport) {
+    const report: Report = { ...input, id: randomUUID(), status: "open", createdAt: Date.now() };
+    this.reports.set(report.id, report);
+    return report;
+  }
+
+  async exists(reporterSocketId: string, roomId: string) {
+    for (const r of this.reports.values()) {
+      if (r.roomId === roomId && r.reporter.socketId === reporterSocketId) return true;
+    }
+    return false;
+  }
+
+  async list({ status, subject, limit, before }: ReportFilter) {
+    const involves = (r: Report, s: string) =>
+      [r.reporter, r.reported].some((u) => u.userId === s || u.socketId === s || u.ip === s);
+
+    return [...this.reports.values()]
+      .filter((r) => !status || r.status === status)
+      .filter((r) => !subject || involves(r, subject))
+      .filter((r) => !before || r.createdAt < before)
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .slice(0, clampLimit(limit))
+      .map(summarize);
+  }
+
+  async get(id: string) {
+    return this.reports.get(id) ?? null;
+  }
+
+  async resolve(id: string, resolution: Omit<ReportResolution, "resolvedAt">) {
+    const report = this.reports.get(id);
+    if (!report) return null;
+    report.status = "resolved";
+    report.resolution = { ...resolution, resolvedAt: Date.now() };
+    return report;
+  }
+}
+
+// ---------- MongoDB ----------
+
+const subjectSchema = new Schema<ReportSubject>(
+  {
+    socketId: { type: String, required: true },
+    userId: { type: String, default: null, index: true },
+    name: { type: String, required: true },
+    ip: { type: String, default: null },
+    ua: { type: String, default: null },
+  },
+  { _id: false }
+);
+
+// Every field of a chat line (a new one fails to compile until it is added
+// here), so evidence reads back exactly as it was filed
+const chatEvidenceFields: Record<keyof ChatEvidenceItem, SchemaDefinitionProperty> = {
+  id: String,
+  text: String,
+  from: String,
+  clientId: String,
+  ts: Number,
+  kind: String,
+  editedAt: Number,
+  deleted: Boolean,
+  reactions: { type: [{ _id: false, emoji: String, by: [String] }], default: undefined },
+  edits: { type: [{ _id: false, text: String, replacedAt: Number }], default: undefined },
+};
+
+type ReportDoc = Omit<Report, "id"> & { _id: string };
+
+const reportSchema = new Schema<ReportDoc>(
+  {
+    _id: { type: String, default: () => randomUUID() },
+    roomId: { type: String, required: true, index: true },
+    category: { type: String },
+    reason: { type: String },
+    reporter: { type: subjectSchema, required: true },
+    reported: { type: subjectSchema, required: true },
+    evidence: {
+      chat: [new Schema(chatEvidenceFields, { _id: false })],
+    },
+    status: { type: String, enum: ["open", "resolved"], default: "open", index: true },
+    resolution: {
+      type: new Schema(
+        { action: String, note: String, resolvedAt: Number },
+        { _id: false }
+      ),
+      default: undefined,
+    },
+    createdAt: { type: Number, default: () => Date.now(), index: true },
+  },
+  { versionKey: false }
+);
+
+const ReportModel = model<ReportDoc>("Report", reportSchema);
+
+function toReport({ _id, ...rest }: ReportDoc): Report {
+  return { id: _id, ...rest };
+}
+
+export class MongoReportStore implements ReportStore {
+  async create(input: NewReport) {
+    const doc = await ReportModel.create(input);
+    return toReport(doc.toObject());
+  }
+
+  async exists(reporterSocketId: string, roomId: string) {
+    return (await ReportModel.exists({ roomId, "reporter.socketId": reporterSocketId })) !== null;
+  }
+
+  async list({ status, subject, limit, before }: ReportFilter) {
+    const query: Record<string, unknown> = {};
+    if (status) query.status = status;
+    if (before) query.createdAt = { $lt: before };
+    if (subject) {
+      query.$or = [
+        { "reporter.userId": subject },
+        { "reported.userId": subject },
+        { "reporter.socketId": subject },
+        { "reported.socketId": subject },
+        { "reporter.ip": subject },
+        { "reported.ip": subject },
+      ];
+    }
+    const docs = await ReportModel.find(query).sort({ createdAt: -1 }).limit(clampLimit(limit)).lean();
+    return docs.map((d) => summarize(toReport(d)));
+  }
+
+  async get(id: string) {
+    const doc = await ReportModel.findById(id).lean();
+    return doc ? toReport(doc) : null;
+  }
+
+  async resolve(id: string, resolution: Omit<ReportResolution, "resolvedAt">) {
+    const doc = await ReportModel.findByIdAndUpdate(
+      id,
+      { status: "resolved", resolution: { ...resolution, resolvedAt: Date.now() } },
+      { new: true }
+    ).lean();
+    return doc ? toReport(doc) : null;
+  }
+}
+
+/** MongoDB-backed store when MONGO_URI is set, in-memory otherwise. */
+export function createReportStore(): ReportStore {
+  if (!mongoEnabled) return new MemoryReportStore();
+  connectMongo();
+  return new MongoReportStore();
+}
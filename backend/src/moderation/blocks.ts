@@ -0,0 +1,18 @@
+import type { AppSocket } from "../type";
+import type { UserManager } from "../managers/UserManger";
+import { onValidated, fail } from "../validation/handler";
+
+export function wireBlocks(socket: AppSocket, userManager: UserManager) {
+  onValidated(socket, "block", async ({ roomId }) => {
+    // Like reports, only the current or just-ended partner can be blocked
+    const pairing = await userManager.getPairing(socket.id);
+    if (!pairing || (roomId && roomId !== pairing.roomId)) {
+      return fail("NOT_PAIRED", "You were not paired with this user");
+    }
+    await userManager.block(socket.id, pairing.partner);
+  });
+
+  onValidated(socket, "unblock", async ({ id }) => {
+    if (!(await userManager.unblock(socket.id, id))) return fail("NOT_FOUND", "No such block");
+  });
+}
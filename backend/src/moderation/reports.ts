@@ -0,0 +1,46 @@
+import type { AppSocket } from "../type";
+import type { UserManager } from "../managers/UserManger";
+import type { ChatStore } from "../chat/ChatStore";
+import { onValidated, fail } from "../validation/handler";
+import type { ReportStore } from "./ReportStore";
+
+// How much of the room's recent chat is attached to a report as evidence,
+// with the text of edited and deleted lines as it was before
+const EVIDENCE_MESSAGES = 50;
+
+export function wireReports(socket: AppSocket, userManager: UserManager, store: ReportStore, chat: ChatStore) {
+  onValidated(socket, "report", async ({ reporterId, reportedId, roomId, category, reason, block }) => {
+    // The reporter is always the sending socket; anything else is a spoof
+    if (reporterId !== socket.id) {
+      return fail("NOT_PAIRED", "Reports can only be filed by the reporting user");
+    }
+
+    // Only someone you were actually paired with (now or just before) can be reported
+    const pairing = await userManager.getPairing(socket.id);
+    if (
+      !pairing ||
+      (roomId && roomId !== pairing.roomId) ||
+      (reportedId && reportedId !== pairing.partner.socketId)
+    ) {
+      return fail("NOT_PAIRED", "You were not paired with this user");
+    }
+
+    const reporter = userManager.describe(socket.id);
+    if (!reporter) return fail("NOT_PAIRED", "You are not connected");
+
+    if (await store.exists(socket.id, pairing.roomId)) {
+      return fail("ALREADY_REPORTED", "You already reported this conversation");
+    }
+
+    await store.create({
+      roomId: pairing.roomId,
+      category,
+      reason: reason?.trim() || undefined,
+      reporter,
+      reported: pairing.partner,
+      evidence: { chat: await chat.evidence(pairing.roomId, EVIDENCE_MESSAGES) },
+    });
+
+    if (block) userManager.block(socket.id, pairing.partner);
+  });
+}
@@ -0,0 +1,40 @@
+// `burst` events at once, refilling continuously to `burst` per `perMs`
+export interface RateBudget {
+  burst: number;
+  perMs: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+}
+
+/**
+ * Token buckets keyed by string. Buckets start full and are only created on
+ * first use, so idle keys cost nothing once `sweep()` drops the refilled ones.
+ */
+export class TokenBuckets {
+  private buckets = new Map<string, Bucket>();
+
+  /** Spend one token: 0 if allowed, else how long until the next one (ms). */
+  take(key: string, { burst, perMs }: RateBudget, now = Date.now()): number {
+    const perToken = perMs / burst;
+    const bucket = this.buckets.get(key) ?? { tokens: burst, updatedAt: now };
+    bucket.tokens = Math.min(burst, bucket.tokens + (now - bucket.updatedAt) / perToken);
+    bucket.updatedAt = now;
+    this.buckets.set(key, bucket);
+
+    if (bucket.tokens >= 1) {
+      bucket.tokens -= 1;
+      return 0;
+    }
+    return Math.ceil((1 - bucket.tokens) * perToken);
+  }
+
+  /** Forget buckets untouched for `idleMs` (they would be full again by now). */
+  sweep(idleMs: number, now = Date.now()) {
+    for (const [key, bucket] of this.buckets) {
+      if (now - bucket.updatedAt >= idleMs) this.buckets.delete(key);
+    }
+  }
+}
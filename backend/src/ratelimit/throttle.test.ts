@@ -0,0 +1,107 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import type { AppSocket } from "../type";
+import { issueResumeToken } from "../session/resumeToken";
+import { TokenBuckets } from "./TokenBucket";
+import { penaltyLeft, throttle } from "./throttle";
+
+type Middleware = (packet: unknown[], next: () => void) => void;
+
+// Just what throttle() and penaltyLeft() touch of a socket
+function fakeSocket(id: string, { ip = "10.0.0.1", userId = null as string | null, resumeToken = "" } = {}) {
+  const emitted: { event: string; payload: unknown }[] = [];
+  let middleware: Middleware = () => {};
+  const fake = {
+    id,
+    disconnected: false,
+    data: { userId },
+    handshake: { address: ip, headers: {}, auth: resumeToken ? { resumeToken } : {} },
+    use(fn: Middleware) {
+      middleware = fn;
+    },
+    emit(event: string, payload: unknown) {
+      emitted.push({ event, payload });
+    },
+    disconnect() {
+      fake.disconnected = true;
+    },
+  };
+  const socket = fake as unknown as AppSocket;
+  // true if the event got through to its handlers
+  const send = (event: string, ...args: unknown[]) => {
+    let passed = false;
+    middleware([event, ...args], () => (passed = true));
+    return passed;
+  };
+  return { socket, fake, emitted, send };
+}
+
+function flood(send: (event: string) => boolean, times = 100) {
+  for (let i = 0; i < times; i++) send("chat:typing");
+}
+
+test("a bucket allows its burst, then refills over time", () => {
+  const buckets = new TokenBuckets();
+  const budget = { burst: 2, perMs: 1000 };
+  assert.equal(buckets.take("k", budget, 0), 0);
+  assert.equal(buckets.take("k", budget, 0), 0);
+  assert.equal(buckets.take("k", budget, 0), 500);
+  assert.equal(buckets.take("k", budget, 500), 0);
+  // other keys have their own budget
+  assert.equal(buckets.take("other", budget, 500), 0);
+});
+
+test("drops events over budget and acks them RATE_LIMITED", () => {
+  const { socket, emitted, send } = fakeSocket("s1", { ip: "10.0.1.1" });
+  throttle(socket);
+  for (let i = 0; i < 15; i++) assert.equal(send("chat:message", {}, () => {}), true);
+
+  let ack: unknown;
+  assert.equal(send("chat:message", {}, (res: unknown) => (ack = res)), false);
+  assert.deepEqual(ack, { ok: false, error: { code: "RATE_LIMITED", message: "Too many requests, slow down" } });
+  assert.equal(emitted.filter((e) => e.event === "rate:limited").length, 1);
+  // other groups keep their own budget
+  assert.equal(send("queue:next"), true);
+});
+
+test("a signed-in user's sockets share one budget", () => {
+  const a = fakeSocket("s2", { ip: "10.0.2.1", userId: "shared-user" });
+  const b = fakeSocket("s3", { ip: "10.0.2.2", userId: "shared-user" });
+  throttle(a.socket);
+  throttle(b.socket);
+  for (let i = 0; i < 15; i++) assert.equal(a.send("chat:message", {}), true);
+  assert.equal(b.send("chat:message", {}), false);
+});
+
+test("sustained flooding disconnects a guest and refuses their session", () => {
+  const { socket, fake, emitted, send } = fakeSocket("s4", { ip: "10.0.3.1" });
+  const resumeToken = issueResumeToken("s4");
+  throttle(socket);
+  flood(send);
+
+  assert.equal(fake.disconnected, true);
+  assert.ok(emitted.some((e) => e.event === "rate:limited" && (e.payload as { disconnected?: boolean }).disconnected));
+  assert.ok(penaltyLeft(fakeSocket("s5", { ip: "10.0.3.1", resumeToken }).socket) > 0);
+  // other guests behind the same address are not locked out by one
+  assert.equal(penaltyLeft(fakeSocket("s6", { ip: "10.0.3.1" }).socket), 0);
+});
+
+test("an address is refused once enough of its guests were disconnected", () => {
+  for (let i = 0; i < 5; i++) {
+    const guest = fakeSocket(`flood-${i}`, { ip: "10.0.4.1" });
+    assert.equal(penaltyLeft(guest.socket), 0);
+    throttle(guest.socket);
+    flood(guest.send);
+    assert.equal(guest.fake.disconnected, true);
+  }
+  // coming back without a resume token does not dodge the penalty
+  assert.ok(penaltyLeft(fakeSocket("s7", { ip: "10.0.4.1" }).socket) > 0);
+  assert.equal(penaltyLeft(fakeSocket("s8", { ip: "10.0.4.2" }).socket), 0);
+});
+
+test("a signed-in user is refused on any socket", () => {
+  const { socket, send } = fakeSocket("s9", { ip: "10.0.5.1", userId: "flooder" });
+  throttle(socket);
+  flood(send);
+  assert.ok(penaltyLeft(fakeSocket("s10", { ip: "10.0.5.2", userId: "flooder" }).socket) > 0);
+});
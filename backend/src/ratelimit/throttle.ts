@@ -0,0 +1,197 @@
+import type { AppSocket, ClientToServerEvents } from "../type";
+import { fail } from "../validation/handler";
+import { verifyResumeToken } from "../session/resumeToken";
+import { TokenBuckets, type RateBudget } from "./TokenBucket";
+
+// Events share a budget with others of the same kind
+type RateGroup = "signaling" | "ice" | "media" | "chat" | "typing" | "queue" | "moderation";
+
+// Every inbound event belongs to a group; a new event without one is a compile error
+const EVENT_GROUPS: { [E in keyof ClientToServerEvents]: RateGroup } = {
+  offer: "signaling",
+  answer: "signaling",
+  "add-ice-candidate": "ice",
+  "ice:servers": "signaling",
+  "call:connected": "signaling",
+  "call:interrupted": "signaling",
+  "call:recovered": "signaling",
+
+  "queue:next": "queue",
+  "queue:leave": "queue",
+  "queue:retry": "queue",
+
+  "chat:join": "chat",
+  "chat:message": "chat",
+  "chat:typing": "typing",
+  "chat:leave": "chat",
+  "chat:read": "chat",
+  "chat:edit": "chat",
+  "chat:delete": "chat",
+  "chat:react": "chat",
+
+  "screen:state": "media",
+  "screenshare:offer": "signaling",
+  "screenshare:answer": "signaling",
+  "screenshare:ice-candidate": "ice",
+  "screenshare:track-start": "media",
+  "screenshare:track-stop": "media",
+  "media:state": "media",
+  "media:cam": "media",
+  "media:mic": "media",
+  "state:update": "media",
+
+  report: "moderation",
+  block: "moderation",
+  unblock: "moderation",
+};
+
+// `<burst>/<seconds>`; each can be overridden with RATE_LIMIT_<GROUP>, e.g.
+// RATE_LIMIT_CHAT=20/10. ICE gathering legitimately sends dozens at once.
+const DEFAULT_BUDGETS: Record<RateGroup, string> = {
+  signaling: "20/10",
+  ice: "200/10",
+  media: "30/10",
+  chat: "15/10",
+  typing: "20/10",
+  queue: "10/30",
+  moderation: "5/60",
+};
+
+function toBudget(raw: string): RateBudget | null {
+  const [burst, seconds] = raw.split("/").map(Number);
+  return burst >= 1 && seconds > 0 ? { burst, perMs: seconds * 1000 } : null;
+}
+
+function budgetFor(group: RateGroup): RateBudget {
+  const name = `RATE_LIMIT_${group.toUpperCase()}`;
+  const configured = process.env[name];
+  const budget = configured ? toBudget(configured) : null;
+  if (configured && !budget) console.warn(`[ratelimit] ignoring invalid ${name}=${configured}`);
+  return budget ?? toBudget(DEFAULT_BUDGETS[group])!;
+}
+
+const BUDGETS = Object.fromEntries(
+  (Object.keys(DEFAULT_BUDGETS) as RateGroup[]).map((g) => [g, budgetFor(g)])
+) as Record<RateGroup, RateBudget>;
+
+// Sustained abuse: this many refused events within STRIKE_WINDOW_MS disconnect
+// the socket, and its user (or guest session) may not reconnect for PENALTY_MS
+const STRIKE_LIMIT = Number(process.env.RATE_LIMIT_STRIKES || 30);
+const STRIKE_WINDOW_MS = 30 * 1000;
+const PENALTY_MS = Number(process.env.RATE_LIMIT_PENALTY_MS || 60 * 1000);
+// Set when a reverse proxy in front of the backend sets X-Forwarded-For to the
+// real client address; only then are guests penalized by IP right away
+const TRUST_PROXY = process.env.TRUST_PROXY === "true";
+// Otherwise a guest who reconnects without their resume token is only caught
+// by address once this many guests of it were disconnected within
+// IP_STRIKE_WINDOW_MS, a coarser budget since many people can share an IP
+const IP_STRIKE_LIMIT = Number(process.env.RATE_LIMIT_IP_STRIKES || 5);
+const IP_STRIKE_WINDOW_MS = 10 * 60 * 1000;
+
+// A signed-in user's sockets share one set of budgets on top of their own, so
+// opening more tabs does not multiply them. Limits are per instance.
+const identityBuckets = new TokenBuckets();
+const penalties = new Map<string, number>(); // penalty key -> until
+const ipStrikes = new Map<string, number[]>(); // IP -> when its guests were disconnected
+
+const IDLE_MS = Math.max(...Object.values(BUDGETS).map((b) => b.perMs));
+setInterval(() => {
+  const now = Date.now();
+  identityBuckets.sweep(IDLE_MS, now);
+  for (const [key, until] of penalties) if (until <= now) penalties.delete(key);
+  for (const [ip, times] of ipStrikes) {
+    const recent = times.filter((t) => now - t < IP_STRIKE_WINDOW_MS);
+    if (recent.length) ipStrikes.set(ip, recent);
+    else ipStrikes.delete(ip);
+  }
+}, 60 * 1000).unref();
+
+function clientIp(socket: AppSocket) {
+  const forwarded = socket.handshake.headers["x-forwarded-for"];
+  const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded)?.split(",")[0].trim();
+  return first || socket.handshake.address || null;
+}
+
+// Who a penalty may apply to: the user when signed in. Many guests can share
+// one IP (NAT, carrier-grade NAT, a proxy), so a guest is keyed by their socket
+// (`socketId`, the one the penalty was or may have been issued to), and by
+// their IP once it earned a penalty of its own (see strikeOut).
+function penaltyKeys(socket: AppSocket, socketId: string | null) {
+  if (socket.data.userId) return [`user:${socket.data.userId}`];
+  const ip = clientIp(socket);
+  const keys = ip ? [`ip:${ip}`] : [];
+  if (!TRUST_PROXY && socketId) keys.push(`socket:${socketId}`);
+  return keys;
+}
+
+// Penalize a socket disconnected for flooding
+function strikeOut(socket: AppSocket, now: number) {
+  const until = now + PENALTY_MS;
+  if (socket.data.userId) return void penalties.set(`user:${socket.data.userId}`, until);
+  if (!TRUST_PROXY) penalties.set(`socket:${socket.id}`, until);
+
+  const ip = clientIp(socket);
+  if (!ip) return;
+  const times = [...(ipStrikes.get(ip) ?? []), now].filter((t) => now - t < IP_STRIKE_WINDOW_MS);
+  ipStrikes.set(ip, times);
+  if (TRUST_PROXY || times.length >= IP_STRIKE_LIMIT) penalties.set(`ip:${ip}`, until);
+}
+
+/**
+ * How long this connection is still refused after an abuse disconnect (ms),
+ * or 0. A guest reconnecting is recognized by the resume token of the socket
+ * that was disconnected, or failing that by an IP penalty.
+ */
+export function penaltyLeft(socket: AppSocket) {
+  const token = socket.handshake.auth?.resumeToken;
+  const resumedFrom = typeof token === "string" ? verifyResumeToken(token) : null;
+  const until = Math.max(0, ...penaltyKeys(socket, resumedFrom).map((key) => penalties.get(key) ?? 0));
+  return Math.max(0, until - Date.now());
+}
+
+/**
+ * Charge every inbound event to its group's budget. Events over budget are
+ * dropped (acked with RATE_LIMITED) and the client is told with `rate:limited`
+ * at most once per group until tokens are back.
+ */
+export function throttle(socket: AppSocket) {
+  const buckets = new TokenBuckets();
+  const notifiedUntil = new Map<RateGroup, number>();
+  let strikes = 0;
+  let strikesSince = 0;
+
+  socket.use((packet, next) => {
+    if (socket.disconnected) return; // packets that arrived before an abuse disconnect
+    const [event, ...args] = packet;
+    const group = EVENT_GROUPS[event as keyof ClientToServerEvents];
+    if (!group) return next(); // unknown events have no listener anyway
+
+    const now = Date.now();
+    const budget = BUDGETS[group];
+    const userId = socket.data.userId;
+    // the user-wide budget is only charged for events this socket may send
+    const retryAfterMs =
+      buckets.take(group, budget, now) || (userId ? identityBuckets.take(`${userId}:${group}`, budget, now) : 0);
+    if (!retryAfterMs) return next();
+
+    const ack = args[args.length - 1];
+    if (typeof ack === "function") ack(fail("RATE_LIMITED", "Too many requests, slow down"));
+
+    if (now - strikesSince > STRIKE_WINDOW_MS) {
+      strikes = 0;
+      strikesSince = now;
+    }
+    if (++strikes >= STRIKE_LIMIT) {
+      strikeOut(socket, now);
+      console.warn(`[ratelimit] disconnecting ${socket.id} for flooding ${event}`);
+      socket.emit("rate:limited", { event, retryAfterMs: PENALTY_MS, disconnected: true });
+      socket.disconnect(true);
+      return;
+    }
+
+    if ((notifiedUntil.get(group) ?? 0) <= now) {
+      notifiedUntil.set(group, now + Math.max(retryAfterMs, 1000));
+      socket.emit("rate:limited", { event, retryAfterMs });
+    }
+  });
+}
@@ -0,0 +1,51 @@
+import { createHmac } from "crypto";
+import type { AppSocket, IceServer } from "../type";
+import { identityOf } from "../auth/identity";
+
+const list = (raw: string | undefined) =>
+  (raw ?? "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+
+// Comma-separated; STUN_URLS= (empty) hands out no STUN server at all
+const STUN_URLS = list(process.env.STUN_URLS ?? "stun:stun.l.google.com:19302");
+const TURN_URLS = list(process.env.TURN_URLS);
+// coturn's `static-auth-secret` (with `use-auth-secret`)
+const TURN_SECRET = process.env.TURN_SECRET || "";
+// TURN refreshes an allocation with the credential it was made with, so this
+// must outlast the longest call
+const TURN_TTL_S = Number(process.env.TURN_TTL_SECONDS || 6 * 60 * 60);
+
+if (TURN_URLS.length && !TURN_SECRET) {
+  console.warn("[ice] TURN_URLS is set without TURN_SECRET; no TURN servers will be handed out");
+}
+
+/**
+ * TURN credentials in the coturn REST scheme: the username is
+ * `<expiry unix seconds>:<user>` and the password is its base64 HMAC-SHA1
+ * under the shared secret, so coturn can check them without a user database.
+ */
+export function turnCredential(user: string, now = Date.now()) {
+  const username = `${Math.floor(now / 1000) + TURN_TTL_S}:${user}`;
+  const credential = createHmac("sha1", TURN_SECRET).update(username).digest("base64");
+  return { username, credential };
+}
+
+/** The STUN and TURN servers one user's peer connections should use. */
+export function iceServersFor(identity: string, now = Date.now()): IceServer[] {
+  const servers: IceServer[] = [];
+  if (STUN_URLS.length) servers.push({ urls: STUN_URLS });
+  if (TURN_URLS.length && TURN_SECRET) servers.push({ urls: TURN_URLS, ...turnCredential(identity, now) });
+  return servers;
+}
+
+// Clients ask before creating each peer connection; credentials are minted
+// per request, for the identity the handshake established
+export function wireIceServers(socket: AppSocket) {
+  socket.on("ice:servers", (ack) => {
+    if (typeof ack !== "function") return;
+    const identity = identityOf({ socketId: socket.id, userId: socket.data.userId ?? null });
+    ack({ ok: true, iceServers: iceServersFor(identity) });
+  });
+}
@@ -0,0 +1,23 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { issueResumeToken, verifyResumeToken } from "./resumeToken";
+
+test("a token names the socket it was issued to", () => {
+  assert.equal(verifyResumeToken(issueResumeToken("abc123")), "abc123");
+});
+
+test("rejects tokens that were tampered with or are malformed", () => {
+  const [, issuedAt, signature] = issueResumeToken("abc123").split(".");
+  assert.equal(verifyResumeToken(`other.${issuedAt}.${signature}`), null);
+  assert.equal(verifyResumeToken(`abc123.${Number(issuedAt) + 1}.${signature}`), null);
+  assert.equal(verifyResumeToken(`abc123.${issuedAt}.${signature.slice(1)}`), null);
+  assert.equal(verifyResumeToken("abc123"), null);
+  assert.equal(verifyResumeToken(""), null);
+});
+
+test("rejects tokens older than a day", (t) => {
+  const token = issueResumeToken("abc123");
+  const issuedAt = Date.now();
+  t.mock.method(Date, "now", () => issuedAt + 24 * 60 * 60 * 1000 + 1);
+  assert.equal(verifyResumeToken(token), null);
+});
@@ -0,0 +1,35 @@
+import { createHmac, randomBytes, timingSafeEqual } from "crypto";
+import { redisEnabled } from "../cache/redis";
+
+// Tokens only prove which socket a client had; whether that socket's call can
+// still be resumed is decided by the hold UserManager keeps for it.
+const MAX_AGE_MS = 24 * 60 * 60 * 1000;
+
+// Every instance must share the secret to accept tokens issued by the others
+const secret = process.env.SESSION_SECRET || randomBytes(32).toString("hex");
+if (!process.env.SESSION_SECRET && redisEnabled) {
+  console.warn("[session] SESSION_SECRET is unset; sessions can only resume on the instance that issued them");
+}
+
+function sign(body: string) {
+  return createHmac("sha256", secret).update(body).digest("base64url");
+}
+
+/** Signed `<socketId>.<issuedAt>.<signature>` handed to the client on connect. */
+export function issueResumeToken(socketId: string) {
+  const body = `${socketId}.${Date.now()}`;
+  return `${body}.${sign(body)}`;
+}
+
+/** The socket id a token was issued to, or null if it is forged or too old. */
+export function verifyResumeToken(token: string): string | null {
+  const [socketId, issuedAt, signature] = token.split(".");
+  if (!socketId || !issuedAt || !signature) return null;
+
+  const expected = Buffer.from(sign(`${socketId}.${issuedAt}`));
+  const given = Buffer.from(signature);
+  if (expected.length !== given.length || !timingSafeEqual(expected, given)) return null;
+
+  if (!(Date.now() - Number(issuedAt) <= MAX_AGE_MS)) return null;
+  return socketId;
+}
@@ -0,0 +1,92 @@
+// Shared moderation/admin REST types.
+//
+// Like events.ts this module is imported type-only by the frontend (admin
+// dashboard), so it must stay free of runtime code and server-only imports.
+
+import type { ChatHistoryItem, ReportCategory } from "./events";
+
+// Plain, socket-free description of a user (safe to keep after disconnect)
+export interface UserSnapshot {
+  socketId: string;
+  // Signed-in user id; null (or absent on older records) for guests
+  userId?: string | null;
+  name: string;
+  ip?: string | null;
+  ua?: string | null;
+}
+
+// ---------- Reports ----------
+
+export type ReportStatus = "open" | "resolved";
+
+export type ReportAction = "dismissed" | "banned";
+
+export interface ReportResolution {
+  action: ReportAction;
+  note?: string;
+  resolvedAt: number;
+}
+
+// Text a chat line had before an edit or delete replaced it
+export interface ChatRevision {
+  text: string;
+  replacedAt: number;
+}
+
+// A chat line as filed with a report: as the room saw it, plus every earlier
+// text (oldest first), which `chat:history` never serves
+export interface ChatEvidenceItem extends ChatHistoryItem {
+  edits?: ChatRevision[];
+}
+
+export interface Report {
+  id: string;
+  roomId: string;
+  category?: ReportCategory;
+  reason?: string;
+  reporter: UserSnapshot;
+  reported: UserSnapshot;
+  evidence: {
+    chat: ChatEvidenceItem[];
+  };
+  status: ReportStatus;
+  resolution?: ReportResolution;
+  createdAt: number;
+}
+
+// List rows omit the evidence payload
+export type ReportSummary = Omit<Report, "evidence"> & { evidenceCount: number };
+
+export interface ReportFilter {
+  status?: ReportStatus;
+  // Matches reporter or reported user id / socket id / IP
+  subject?: string;
+  limit?: number;
+  // Only reports created before this timestamp (pagination cursor)
+  before?: number;
+}
+
+// ---------- Bans ----------
+
+// "user" bans match the user's identity key, "ip" bans match User.meta.ip
+export type BanKind = "user" | "ip";
+
+export interface Ban {
+  id: string;
+  kind: BanKind;
+  value: string;
+  reason?: string;
+  reportId?: string;
+  createdAt: number;
+  // null = permanent
+  expiresAt: number | null;
+}
+
+export interface NewBanRequest {
+  kind: BanKind;
+  value: string;
+  reason?: string;
+  reportId?: string;
+  // Omit or null for a permanent ban
+  durationMinutes?: number | null;
+}
@@ -0,0 +1,496 @@
+// Shared Socket.IO event contract.
+//
+// This module is imported by the backend (`new Server<...>()`) and, type-only,
+// by the frontend (`io()` in Room.tsx / ChatPanel). Keep it free of runtime
+// code and of imports from `socket.io` or the DOM so both sides can compile it.
+
+// ---------- WebRTC primitives (structural, DOM-free) ----------
+
+export type SdpType = "offer" | "answer" | "pranswer" | "rollback";
+
+// Mirrors RTCSessionDescriptionInit
+export interface SessionDescription {
+  type: SdpType;
+  sdp?: string;
+}
+
+// Mirrors RTCIceCandidateInit
+export interface IceCandidate {
+  candidate?: string;
+  sdpMid?: string | null;
+  sdpMLineIndex?: number | null;
+  usernameFragment?: string | null;
+}
+
+export interface MediaFlags {
+  micOn?: boolean;
+  camOn?: boolean;
+}
+
+// ---------- Handshake ----------
+
+export type SkillBucket = "beginner" | "intermediate" | "advanced";
+
+// Who a user would like to be matched with; unset fields match anyone.
+// `language` is an ISO 639-1 code, `industry` a lowercase slug.
+export interface MatchPreferences {
+  language?: string;
+  industry?: string;
+  skillBucket?: SkillBucket;
+}
+
+// Socket.IO handshake auth parameters
+export interface HandshakeAuth extends MatchPreferences {
+  name?: string;
+  // Clerk session token; omitted for guests
+  token?: string;
+  // From the last `session` event; reclaims a call after a brief disconnect
+  resumeToken?: string;
+}
+
+// ---------- Client -> Server payloads ----------
+
+export interface OfferPayload {
+  roomId: string;
+  sdp: SessionDescription;
+}
+
+export interface AnswerPayload {
+  roomId: string;
+  sdp: SessionDescription;
+}
+
+export interface IceCandidatePayload {
+  roomId: string;
+  candidate: IceCandidate;
+}
+
+// The call's peer connection is up. A call that no client reports connected
+// within the server's setup timeout ends and both users are queued again.
+export interface CallConnectedPayload {
+  roomId: string;
+}
+
+// The call's media connection dropped and the client is restarting ICE. If
+// neither side reports it recovered within the server's grace period, the
+// call ends and both users are queued again.
+export interface CallInterruptedPayload {
+  roomId: string;
+}
+
+export interface CallRecoveredPayload {
+  roomId: string;
+}
+
+// Chat event payload types
+export interface ChatJoinPayload {
+  roomId: string;
+  name?: string;
+}
+
+export interface ChatMessagePayload {
+  roomId: string;
+  text: string;
+  from: string;
+  clientId: string;
+  // Chosen by the sender for each message; a retry reuses it, so a line whose
+  // ack was lost is not stored twice
+  localId: string;
+  ts?: number;
+}
+
+export interface ChatTypingPayload {
+  roomId: string;
+  from: string;
+  typing: boolean;
+}
+
+export interface ChatLeavePayload {
+  roomId: string;
+  name: string;
+}
+
+// Only the author may edit or delete a line; anyone in the room may react
+export interface ChatEditPayload {
+  roomId: string;
+  id: string; // ChatHistoryItem.id
+  text: string;
+}
+
+export interface ChatDeletePayload {
+  roomId: string;
+  id: string;
+}
+
+// Reacting again with the same emoji takes the reaction back
+export interface ChatReactPayload {
+  roomId: string;
+  id: string;
+  emoji: string;
+}
+
+// The peer's lines the reader has now seen (their chat drawer is open)
+export interface ChatReadPayload {
+  roomId: string;
+  ids: string[]; // ChatHistoryItem.id
+}
+
+export interface ScreenStatePayload {
+  roomId: string;
+  on: boolean;
+}
+
+export interface ScreenshareOfferPayload {
+  roomId: string;
+  sdp: SessionDescription;
+}
+
+export interface ScreenshareAnswerPayload {
+  roomId: string;
+  sdp: SessionDescription;
+}
+
+export interface ScreenshareIceCandidatePayload {
+  roomId: string;
+  candidate: IceCandidate;
+}
+
+export interface ScreenshareTrackStartPayload {
+  roomId: string;
+}
+
+export interface ScreenshareTrackStopPayload {
+  roomId: string;
+}
+
+export interface MediaStatePayload {
+  roomId: string;
+  state: MediaFlags;
+}
+
+export interface MediaCamPayload {
+  roomId: string;
+  on: boolean;
+}
+
+export interface MediaMicPayload {
+  roomId: string;
+  on: boolean;
+}
+
+export interface StateUpdatePayload extends MediaFlags {
+  roomId: string;
+}
+
+export type ReportCategory = "harassment" | "nudity" | "spam" | "impersonation" | "other";
+
+// `reportedId` may be null; the server resolves it from the reporter's pairing.
+// `reason` is free text; with `block` the call ends and the two are never rematched.
+export interface ReportPayload {
+  reporterId: string;
+  reportedId: string | null;
+  roomId: string | null;
+  category?: ReportCategory;
+  reason?: string;
+  block?: boolean;
+}
+
+// Block the current (or just-ended) partner: the call ends like a skip and
+// the two are never matched again, until the blocker undoes it
+export interface BlockPayload {
+  roomId: string | null;
+}
+
+export interface UnblockPayload {
+  id: string; // BlockedUser.id
+}
+
+// ---------- Server -> Client payloads ----------
+
+// Both users of a room get this and open one peer connection to each other.
+// Either side may then send offers (perfect negotiation); when two cross, the
+// polite side rolls its own back and answers, the impolite side ignores the
+// incoming one. Exactly one of the two is polite.
+export interface CallStartPayload {
+  roomId: string;
+  peerId: string;
+  polite: boolean;
+}
+
+// A chat line as broadcast live and as stored in room history
+export interface ChatHistoryItem {
+  id: string; // assigned by the server
+  text: string;
+  from: string;
+  clientId: string;
+  ts: number;
+  kind?: "user" | "system";
+  editedAt?: number;
+  deleted?: boolean; // text is emptied
+  reactions?: ChatReaction[];
+}
+
+// Everyone who reacted to a line with one emoji, by the clientId they had then
+export interface ChatReaction {
+  emoji: string;
+  by: string[];
+}
+
+// A line was edited, deleted or reacted to; `message` is its current state
+export interface ChatUpdatePayload {
+  roomId: string;
+  message: ChatHistoryItem;
+}
+
+export interface ChatSystemMessage {
+  id: string;
+  text: string;
+  ts?: number;
+}
+
+// How far the sender's lines got: the peer's client received them, or the
+// peer saw them with their chat drawer open
+export interface ChatReceiptPayload {
+  roomId: string;
+  ids: string[];
+  status: "delivered" | "read";
+}
+
+export interface ChatHistoryPayload {
+  roomId: string;
+  messages: ChatHistoryItem[];
+}
+
+export interface QueueTimeoutPayload {
+  message: string;
+  waitTime: number;
+}
+
+// Sent every few seconds while waiting
+export interface QueueStatusPayload {
+  position: number; // 1 = longest waiting
+  waiting: number; // everyone in the queue, this user included
+  compatible: number; // others waiting who match every preference this user set
+  etaMs: number | null; // from the recent match rate; null when there is none yet
+}
+
+// The user skipped too many calls within seconds; they are queued again
+// automatically after `remainingMs`
+export interface QueueCooldownPayload {
+  remainingMs: number;
+}
+
+// Sent on every connection; present the token as `auth.resumeToken` when
+// reconnecting within `graceMs` to keep the current call
+export interface SessionPayload {
+  resumeToken: string;
+  graceMs: number;
+}
+
+export interface SessionResumedPayload {
+  roomId: string;
+  peerId: string;
+}
+
+export interface PartnerReconnectingPayload {
+  graceMs: number;
+}
+
+export interface PartnerResumedPayload {
+  peerId: string;
+}
+
+// `reason` is "connection-failed" when the call's media connection could not
+// be restored, "setup-failed" when it never came up; both users get those
+export interface PartnerLeftPayload {
+  reason?: string;
+}
+
+// One entry of the user's block list (who it refers to stays server-side)
+export interface BlockedUser {
+  id: string;
+  name: string;
+  blockedAt: number;
+}
+
+// Sent on connect and whenever the list changes
+export interface BlockListPayload {
+  blocked: BlockedUser[];
+}
+
+// An event was dropped for exceeding its rate budget; with `disconnected` the
+// connection is being closed and reconnecting is refused for `retryAfterMs`
+export interface RateLimitedPayload {
+  event: string;
+  retryAfterMs: number;
+  disconnected?: boolean;
+}
+
+export interface BannedPayload {
+  reason?: string;
+  // null = permanent
+  expiresAt: number | null;
+}
+
+// Relayed events carry the sender's socket id
+interface Relayed {
+  from: string;
+}
+
+// ---------- Acknowledgements ----------
+
+// Machine-readable reasons an inbound event was rejected
+export type ErrorCode =
+  | "INVALID_PAYLOAD"
+  | "NOT_IN_ROOM"
+  | "NOT_PAIRED"
+  | "ALREADY_REPORTED"
+  | "NOT_FOUND"
+  | "RATE_LIMITED"
+  | "INTERNAL";
+
+export interface AckError {
+  code: ErrorCode;
+  message: string;
+  // Field-level problems for INVALID_PAYLOAD
+  issues?: { path: string; message: string }[];
+}
+
+export type AckFailure = { ok: false; error: AckError };
+
+// Some events carry data in a successful ack, e.g. the id of a chat line
+export type AckResponse<T extends object = {}> = ({ ok: true } & T) | AckFailure;
+
+export type Ack<T extends object = {}> = (res: AckResponse<T>) => void;
+
+export interface ChatMessageAck {
+  id: string;
+}
+
+// One entry of RTCConfiguration.iceServers; TURN entries carry time-limited
+// credentials minted for this user
+export interface IceServer {
+  urls: string[];
+  username?: string;
+  credential?: string;
+}
+
+export interface IceServersAck {
+  iceServers: IceServer[];
+}
+
+// `connect_error` messages when the handshake is refused
+export type HandshakeErrorCode =
+  | "UNAUTHORIZED" // the session token did not verify
+  | "AUTH_REQUIRED" // no token and guests are not allowed
+  | "RATE_LIMITED"; // recently disconnected for flooding events
+
+// ---------- Event maps ----------
+
+export interface ClientToServerEvents {
+  // WebRTC signaling (routed by RoomManager)
+  offer: (payload: OfferPayload, ack?: Ack) => void;
+  answer: (payload: AnswerPayload, ack?: Ack) => void;
+  "add-ice-candidate": (payload: IceCandidatePayload, ack?: Ack) => void;
+  "call:connected": (payload: CallConnectedPayload, ack?: Ack) => void;
+  "call:interrupted": (payload: CallInterruptedPayload, ack?: Ack) => void;
+  "call:recovered": (payload: CallRecoveredPayload, ack?: Ack) => void;
+
+  // Matching
+  "queue:next": () => void;
+  "queue:leave": () => void;
+  "queue:retry": () => void;
+
+  // Requests answered through the ack alone
+  "ice:servers": (ack: Ack<IceServersAck>) => void;
+
+  // Chat
+  "chat:join": (payload: ChatJoinPayload, ack?: Ack) => void;
+  "chat:message": (payload: ChatMessagePayload, ack?: Ack<ChatMessageAck>) => void;
+  "chat:typing": (payload: ChatTypingPayload, ack?: Ack) => void;
+  "chat:leave": (payload: ChatLeavePayload, ack?: Ack) => void;
+  "chat:read": (payload: ChatReadPayload, ack?: Ack) => void;
+  "chat:edit": (payload: ChatEditPayload, ack?: Ack) => void;
+  "chat:delete": (payload: ChatDeletePayload, ack?: Ack) => void;
+  "chat:react": (payload: ChatReactPayload, ack?: Ack) => void;
+
+  // Screen share + media relays
+  "screen:state": (payload: ScreenStatePayload, ack?: Ack) => void;
+  "screenshare:offer": (payload: ScreenshareOfferPayload, ack?: Ack) => void;
+  "screenshare:answer": (payload: ScreenshareAnswerPayload, ack?: Ack) => void;
+  "screenshare:ice-candidate": (payload: ScreenshareIceCandidatePayload, ack?: Ack) => void;
+  "screenshare:track-start": (payload: ScreenshareTrackStartPayload, ack?: Ack) => void;
+  "screenshare:track-stop": (payload: ScreenshareTrackStopPayload, ack?: Ack) => void;
+  "media:state": (payload: MediaStatePayload, ack?: Ack) => void;
+  "media:cam": (payload: MediaCamPayload, ack?: Ack) => void;
+  "media:mic": (payload: MediaMicPayload, ack?: Ack) => void;
+  "state:update": (payload: StateUpdatePayload, ack?: Ack) => void;
+
+  // Moderation
+  report: (payload: ReportPayload, ack?: Ack) => void;
+  block: (payload: BlockPayload, ack?: Ack) => void;
+  unblock: (payload: UnblockPayload, ack?: Ack) => void;
+}
+
+export interface ServerToClientEvents {
+  // Matching lifecycle
+  lobby: () => void;
+  "queue:waiting": () => void;
+  "queue:timeout": (payload: QueueTimeoutPayload) => void;
+  "queue:status": (payload: QueueStatusPayload) => void;
+  "queue:cooldown": (payload: QueueCooldownPayload) => void;
+  "partner:left": (payload: PartnerLeftPayload) => void;
+  "partner:reconnecting": (payload: PartnerReconnectingPayload) => void;
+  "partner:resumed": (payload: PartnerResumedPayload) => void;
+  // Sent right before a banned user's socket is disconnected
+  banned: (payload: BannedPayload) => void;
+  blocks: (payload: BlockListPayload) => void;
+  "rate:limited": (payload: RateLimitedPayload) => void;
+
+  // Session resume
+  session: (payload: SessionPayload) => void;
+  "session:resumed": (payload: SessionResumedPayload) => void;
+
+  // WebRTC signaling
+  "call:start": (payload: CallStartPayload) => void;
+  offer: (payload: { roomId: string; sdp: SessionDescription }) => void;
+  answer: (payload: { roomId: string; sdp: SessionDescription }) => void;
+  "add-ice-candidate": (payload: { candidate: IceCandidate }) => void;
+
+  // Chat
+  // Acked by the receiving client, which the sender then sees as delivered
+  "chat:message": (payload: ChatHistoryItem, ack: Ack) => void;
+  "chat:system": (payload: ChatSystemMessage) => void;
+  "chat:typing": (payload: { from: string; typing: boolean }) => void;
+  "chat:history": (payload: ChatHistoryPayload) => void;
+  "chat:receipt": (payload: ChatReceiptPayload) => void;
+  "chat:update": (payload: ChatUpdatePayload) => void;
+
+  // Screen share + media relays
+  "screen:state": (payload: { on: boolean } & Relayed) => void;
+  "screenshare:offer": (payload: { sdp: SessionDescription } & Relayed) => void;
+  "screenshare:answer": (payload: { sdp: SessionDescription } & Relayed) => void;
+  "screenshare:ice-candidate": (payload: { candidate: IceCandidate } & Relayed) => void;
+  "screenshare:track-start": (payload: Relayed) => void;
+  "screenshare:track-stop": (payload: Relayed) => void;
+  "peer:media-state": (payload: { state: MediaFlags } & Relayed) => void;
+  "media:cam": (payload: { on: boolean } & Relayed) => void;
+  "media:mic": (payload: { on: boolean } & Relayed) => void;
+  "peer:state": (payload: MediaFlags & Relayed) => void;
+}
+
+// Broadcast between backend instances over the Redis adapter
+export interface InterServerEvents {
+  // A moderator added or lifted a ban on some instance: reload and enforce
+  "bans:changed": () => void;
+}
+
+// Socket data structure for storing chat-related information
+export interface SocketData {
+  // Clerk user id verified at handshake; null for guests
+  userId?: string | null;
+  chatNames?: Record<string, string>;
+  chatJoining?: Record<string, boolean>;
+  chatJoinedOnce?: Record<string, boolean>;
+  chatLeftRooms?: Record<string, boolean>;
+}
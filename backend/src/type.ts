@@ -1,8 +1,28 @@
-import type { Socket } from "socket.io";
+import type { Server, Socket } from "socket.io";
+import type {
+  ClientToServerEvents,
+  ServerToClientEvents,
+  InterServerEvents,
+  SocketData,
+} from "./shared/events";
+import type { Block } from "./moderation/BlockStore";
+
+// Wire-level payloads and event maps live in the shared contract so the
+// frontend can type its socket against the same definitions.
+export type * from "./shared/events";
+export type * from "./shared/admin";
+
+// Typed Socket.IO server/socket used throughout the backend
+export type AppServer = Server<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
+export type AppSocket = Socket<ClientToServerEvents, ServerToClientEvents, InterServerEvents, SocketData>;
 
 export interface User {
-  socket: Socket;
+  socket: AppSocket;
   name: string;
+  // Verified Clerk user id; null for guests
+  userId: string | null;
+  // People this user blocked; persisted for signed-in users, per connection for guests
+  blocks: Block[];
   joinedAt?: number;
   meta?: {
     language?: string;
@@ -13,108 +33,3 @@ export interface User {
     [key: string]: unknown;
   };
 }
-
-// Socket.IO handshake auth parameters
-export interface HandshakeAuth {
-  name?: string;
-  roomId?: string;
-}
-
-// Socket.IO handshake query parameters
-export interface HandshakeQuery {
-  roomId?: string;
-}
-
-// Socket data structure for storing chat-related information
-export interface SocketData {
-  chatNames?: Record<string, string>;
-}
-
-// Chat event payload types
-export interface ChatJoinPayload {
-  roomId: string;
-  name?: string;
-}
-
-export interface ChatMessagePayload {
-  roomId: string;
-  text: string;
-  from: string;
-  clientId: string;
-  ts?: number;
-}
-
-export interface ChatTypingPayload {
-  roomId: string;
-  from: string;
-  typing: boolean;
-}
-
-export interface ChatLeavePayload {
-  roomId: string;
-  name: string;
-}
-
-export interface ScreenStatePayload {
-  roomId: string;
-  on: boolean;
-}
-
-export interface ScreenshareOfferPayload {
-  roomId: string;
-  sdp: string;
-}
-
-export interface ScreenshareAnswerPayload {
-  roomId: string;
-  sdp: string;
-}
-
-export interface ScreenshareIceCandidatePayload {
-  roomId: string;
-  candidate: string;
-}
-
-export interface ScreenshareTrackStartPayload {
-  roomId: string;
-}
-
-export interface ScreenshareTrackStopPayload {
-  roomId: string;
-}
-
-export interface MediaStatePayload {
-  roomId: string;
-  state: {
-    micOn?: boolean;
-    camOn?: boolean;
-  };
-}
-
-export interface MediaCamPayload {
-  roomId: string;
-  on: boolean;
-}
-
-export interface MediaMicPayload {
-  roomId: string;
-  on: boolean;
-}
-
-export interface StateUpdatePayload {
-  roomId: string;
-  micOn?: boolean;
-  camOn?: boolean;
-}
-
-export interface RenegotiateOfferPayload {
-  roomId: string;
-  sdp: string;
-  role: string;
-}
-
-export interface RenegotiateAnswerPayload {
-  roomId: string;
-  sdp: string;
-  role: string;
-}
@@ -0,0 +1,55 @@
+import type { Ack, AckFailure, AckResponse, AppSocket, ClientToServerEvents, ErrorCode } from "../type";
+import { inboundSchemas, type PayloadEvent, type PayloadOf } from "./schemas";
+
+// What a successful ack carries for this event, beyond `ok`
+type AckDataOf<E extends PayloadEvent> =
+  NonNullable<Parameters<ClientToServerEvents[E]>[1]> extends Ack<infer T> ? T : {};
+
+// A handler may return an explicit ack; returning nothing acks `{ ok: true }`.
+type Handler<E extends PayloadEvent> = (
+  payload: PayloadOf<E>
+) => void | AckResponse<AckDataOf<E>> | Promise<void | AckResponse<AckDataOf<E>>>;
+
+/** Build a failed acknowledgement. */
+export function fail(code: ErrorCode, message: string): AckFailure {
+  return { ok: false, error: { code, message } };
+}
+
+/** Rejection for events that target a room the sender was not paired into. */
+export function notInRoom(): AckFailure {
+  return fail("NOT_IN_ROOM", "You are not a member of this room");
+}
+
+/**
+ * Register a listener that parses the payload with the event's schema first.
+ * Invalid payloads are dropped and, if the client passed an ack callback,
+ * answered with `INVALID_PAYLOAD` plus the offending fields.
+ */
+export function onValidated<E extends PayloadEvent>(socket: AppSocket, event: E, handler: Handler<E>) {
+  const schema = inboundSchemas[event];
+
+  const listener = async (raw: unknown, ack?: unknown) => {
+    const reply: Ack = typeof ack === "function" ? (ack as Ack) : () => {};
+
+    const parsed = schema.safeParse(raw);
+    if (!parsed.success) {
+      const issues = parsed.error.issues.map((i) => ({
+        path: i.path.map(String).join("."),
+        message: i.message,
+      }));
+      console.warn(`[validation] dropped ${event} from ${socket.id}`, issues);
+      reply({ ok: false, error: { code: "INVALID_PAYLOAD", message: `Invalid payload for ${event}`, issues } });
+      return;
+    }
+
+    try {
+      const res = await handler(parsed.data as PayloadOf<E>);
+      reply(res ?? { ok: true });
+    } catch (err) {
+      console.warn(`[${event}] handler error`, err);
+      reply(fail("INTERNAL", "Something went wrong"));
+    }
+  };
+
+  socket.on(event, listener as never);
+}
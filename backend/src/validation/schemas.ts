@@ -0,0 +1,116 @@
+import { z } from "zod";
+import type {
+  ClientToServerEvents,
+  SessionDescription,
+  IceCandidate,
+  MediaFlags,
+  HandshakeAuth,
+} from "../type";
+
+// Events whose listener takes a payload (queue:* events carry none, and
+// requests like ice:servers only an ack)
+export type PayloadEvent = {
+  [K in keyof ClientToServerEvents]: Parameters<ClientToServerEvents[K]> extends [] | [(...args: never[]) => void]
+    ? never
+    : K;
+}[keyof ClientToServerEvents];
+
+export type PayloadOf<E extends PayloadEvent> = Parameters<ClientToServerEvents[E]>[0];
+
+const MAX_SDP = 64 * 1024;
+const MAX_ID = 128;
+
+// ---------- Shared pieces ----------
+
+const roomId = z.string().trim().min(1).max(MAX_ID);
+const shortText = z.string().max(MAX_ID);
+// One emoji; modifiers and ZWJ sequences make some of them several code points
+const emoji = z.string().max(32).regex(/^\p{Extended_Pictographic}/u, "Not an emoji");
+
+const sessionDescription = z.object({
+  type: z.enum(["offer", "answer", "pranswer", "rollback"]),
+  sdp: z.string().max(MAX_SDP).optional(),
+}) satisfies z.ZodType<SessionDescription>;
+
+const iceCandidate = z.object({
+  candidate: z.string().max(2048).optional(),
+  sdpMid: z.string().max(MAX_ID).nullable().optional(),
+  sdpMLineIndex: z.number().int().min(0).nullable().optional(),
+  usernameFragment: z.string().max(MAX_ID).nullable().optional(),
+}) satisfies z.ZodType<IceCandidate>;
+
+const mediaFlags = z.object({
+  micOn: z.boolean().optional(),
+  camOn: z.boolean().optional(),
+}) satisfies z.ZodType<MediaFlags>;
+
+// ---------- Handshake ----------
+
+// A malformed field is dropped (falls back to "anyone") instead of refusing
+// the connection; preferences only steer matching.
+const slug = z.string().trim().toLowerCase().regex(/^[a-z0-9-]{1,32}$/);
+
+export const handshakeAuthSchema = z.object({
+  name: z.string().trim().min(1).max(64).optional().catch(undefined),
+  language: slug.regex(/^[a-z]{2}$/).optional().catch(undefined),
+  industry: slug.optional().catch(undefined),
+  skillBucket: z.enum(["beginner", "intermediate", "advanced"]).optional().catch(undefined),
+  resumeToken: z.string().max(256).optional().catch(undefined),
+  token: z.string().max(4096).optional().catch(undefined),
+}) satisfies z.ZodType<HandshakeAuth>;
+
+const roomOnly = z.object({ roomId });
+const roomToggle = z.object({ roomId, on: z.boolean() });
+
+// ---------- Per-event schemas ----------
+
+// One schema per inbound event; the mapped type makes a missing or drifting
+// schema a compile error whenever the shared contract changes.
+export const inboundSchemas: { [E in PayloadEvent]: z.ZodType<PayloadOf<E>> } = {
+  offer: z.object({ roomId, sdp: sessionDescription }),
+  answer: z.object({ roomId, sdp: sessionDescription }),
+  "add-ice-candidate": z.object({ roomId, candidate: iceCandidate }),
+  "call:connected": roomOnly,
+  "call:interrupted": roomOnly,
+  "call:recovered": roomOnly,
+
+  "chat:join": z.object({ roomId, name: shortText.optional() }),
+  "chat:message": z.object({
+    roomId,
+    // length is capped (not rejected) by the chat handler
+    text: z.string(),
+    from: shortText,
+    clientId: shortText,
+    localId: shortText,
+    ts: z.number().optional(),
+  }),
+  "chat:typing": z.object({ roomId, from: shortText, typing: z.boolean() }),
+  "chat:leave": z.object({ roomId, name: shortText }),
+  "chat:read": z.object({ roomId, ids: z.array(shortText).min(1).max(100) }),
+  // text is capped like chat:message
+  "chat:edit": z.object({ roomId, id: shortText, text: z.string() }),
+  "chat:delete": z.object({ roomId, id: shortText }),
+  "chat:react": z.object({ roomId, id: shortText, emoji }),
+
+  "screen:state": roomToggle,
+  "screenshare:offer": z.object({ roomId, sdp: sessionDescription }),
+  "screenshare:answer": z.object({ roomId, sdp: sessionDescription }),
+  "screenshare:ice-candidate": z.object({ roomId, candidate: iceCandidate }),
+  "screenshare:track-start": roomOnly,
+  "screenshare:track-stop": roomOnly,
+  "media:state": z.object({ roomId, state: mediaFlags }),
+  "media:cam": roomToggle,
+  "media:mic": roomToggle,
+  "state:update": mediaFlags.extend({ roomId }),
+
+  report: z.object({
+    reporterId: shortText,
+    reportedId: shortText.nullable(),
+    roomId: roomId.nullable(),
+    category: z.enum(["harassment", "nudity", "spam", "impersonation", "other"]).optional(),
+    reason: z.string().max(500).optional(),
+    block: z.boolean().optional(),
+  }),
+  block: z.object({ roomId: roomId.nullable() }),
+  unblock: z.object({ id: shortText }),
+};
@@ -0,0 +1,6 @@
+"use client";
+import AdminDashboard from "@/components/Admin/AdminDashboard";
+
+export default function AdminPage() {
+  return <AdminDashboard />;
+}
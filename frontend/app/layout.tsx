@@ -2,7 +2,9 @@ import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import type { ReactNode } from "react";
 import "./globals.css";
+import { ClerkProvider } from "@clerk/nextjs";
 import { Toaster } from "@/components/ui/toaster";
+import { clerkEnabled } from "@/lib/auth";
 
 
 const geistSans = Geist({
@@ -40,7 +42,7 @@ export default function RootLayout({
 }: Readonly<{
   children: ReactNode;
 }>) {
-  return (
+  const page = (
     <html lang="en" suppressHydrationWarning>
 
       <body
@@ -52,4 +54,7 @@ export default function RootLayout({
       </body>
     </html>
   );
+
+  // Without a publishable key the app runs guest-only and never loads Clerk
+  return clerkEnabled ? <ClerkProvider>{page}</ClerkProvider> : page;
 }
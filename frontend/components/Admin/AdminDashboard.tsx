@@ -0,0 +1,440 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { toast } from "sonner";
+import {
+  IconFlag,
+  IconBan,
+  IconCheck,
+  IconLogout,
+  IconRefresh,
+  IconShieldLock,
+} from "@tabler/icons-react";
+import type { Ban, BanKind, Report, ReportStatus, ReportSummary, UserSnapshot } from "@shared/admin";
+import {
+  AdminApiError,
+  createBan,
+  getReport,
+  liftBan,
+  listBans,
+  listReports,
+  resolveReport,
+} from "@/lib/admin-api";
+
+const TOKEN_KEY = "helixque-admin-token";
+
+const DURATIONS: { label: string; minutes: number | null }[] = [
+  { label: "1 hour", minutes: 60 },
+  { label: "24 hours", minutes: 24 * 60 },
+  { label: "7 days", minutes: 7 * 24 * 60 },
+  { label: "30 days", minutes: 30 * 24 * 60 },
+  { label: "Permanent", minutes: null },
+];
+
+const fmt = (ts: number) => new Date(ts).toLocaleString();
+
+const describeReport = ({ category, reason }: Pick<ReportSummary, "category" | "reason">) => {
+  const label = category ? category.charAt(0).toUpperCase() + category.slice(1) : "";
+  return [label, reason].filter(Boolean).join(": ") || "No reason given";
+};
+
+export default function AdminDashboard() {
+  const [token, setToken] = useState<string | null>(null);
+  const [tokenInput, setTokenInput] = useState("");
+
+  const [status, setStatus] = useState<ReportStatus | "all">("open");
+  const [subject, setSubject] = useState("");
+  const [reports, setReports] = useState<ReportSummary[]>([]);
+  const [selected, setSelected] = useState<Report | null>(null);
+  const [bans, setBans] = useState<Ban[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  // ban form for the selected report
+  const [banKind, setBanKind] = useState<BanKind>("user");
+  const [banMinutes, setBanMinutes] = useState<number | null>(24 * 60);
+  const [note, setNote] = useState("");
+
+  useEffect(() => {
+    setToken(sessionStorage.getItem(TOKEN_KEY));
+  }, []);
+
+  const signOut = () => {
+    sessionStorage.removeItem(TOKEN_KEY);
+    setToken(null);
+    setReports([]);
+    setBans([]);
+    setSelected(null);
+  };
+
+  const handleError = useCallback((e: unknown) => {
+    if (e instanceof AdminApiError && e.status === 401) {
+      toast.error("Unauthorized", { description: "The admin token was rejected" });
+      signOut();
+      return;
+    }
+    toast.error("Request failed", { description: e instanceof Error ? e.message : "Unknown error" });
+  }, []);
+
+  const refresh = useCallback(async () => {
+    if (!token) return;
+    setLoading(true);
+    try {
+      const [r, b] = await Promise.all([
+        listReports(token, { status: status === "all" ? undefined : status, subject: subject.trim() || undefined }),
+        listBans(token),
+      ]);
+      setReports(r);
+      setBans(b);
+    } catch (e) {
+      handleError(e);
+    } finally {
+      setLoading(false);
+    }
+  }, [token, status, subject, handleError]);
+
+  useEffect(() => {
+    refresh();
+  }, [token, status]); // subject filter applies on submit
+
+  const openReport = async (id: string) => {
+    if (!token) return;
+    try {
+      setSelected(await getReport(token, id));
+      setNote("");
+    } catch (e) {
+      handleError(e);
+    }
+  };
+
+  const dismiss = async () => {
+    if (!token || !selected) return;
+    try {
+      setSelected(await resolveReport(token, selected.id, "dismissed", note.trim() || undefined));
+      toast.success("Report dismissed");
+      refresh();
+    } catch (e) {
+      handleError(e);
+    }
+  };
+
+  const ban = async () => {
+    if (!token || !selected) return;
+    // "user" bans match the signed-in user id (the socket id for guests)
+    const value =
+      banKind === "ip" ? selected.reported.ip : selected.reported.userId || selected.reported.socketId;
+    if (!value) {
+      toast.error("Cannot ban", { description: "No IP address was recorded for this user" });
+      return;
+    }
+    try {
+      await createBan(token, {
+        kind: banKind,
+        value,
+        reason: note.trim() || selected.reason,
+        reportId: selected.id,
+        durationMinutes: banMinutes,
+      });
+      toast.success("Ban issued");
+      setSelected(await getReport(token, selected.id));
+      refresh();
+    } catch (e) {
+      handleError(e);
+    }
+  };
+
+  const lift = async (id: string) => {
+    if (!token) return;
+    try {
+      await liftBan(token, id);
+      toast.success("Ban lifted");
+      refresh();
+    } catch (e) {
+      handleError(e);
+    }
+  };
+
+  if (!token) {
+    return (
+      <div className="min-h-screen bg-neutral-950 flex items-center justify-center px-6">
+        <form
+          className="w-full max-w-sm p-8 rounded-2xl border border-white/10 bg-neutral-900/50 space-y-4"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (!tokenInput.trim()) return;
+            sessionStorage.setItem(TOKEN_KEY, tokenInput.trim());
+            setToken(tokenInput.trim());
+            setTokenInput("");
+          }}
+        >
+          <div className="flex items-center gap-2 text-white">
+            <IconShieldLock className="h-6 w-6" />
+            <h1 className="text-xl font-semibold">Moderator sign in</h1>
+          </div>
+          <input
+            type="password"
+            value={tokenInput}
+            onChange={(e) => setTokenInput(e.target.value)}
+            placeholder="Admin token"
+            className="w-full h-12 px-4 rounded-xl border border-white/10 bg-neutral-800/50 text-white placeholder-neutral-500 focus:border-white/30 focus:outline-none"
+          />
+          <button
+            type="submit"
+            className="cursor-pointer w-full h-12 bg-white text-black rounded-xl font-medium hover:bg-white/90"
+          >
+            Continue
+          </button>
+        </form>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-neutral-950 text-white px-6 py-6">
+      <div className="mx-auto max-w-[1400px] space-y-6">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl font-semibold flex items-center gap-2">
+            <IconFlag className="h-6 w-6" /> Moderation
+          </h1>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={refresh}
+              disabled={loading}
+              className="cursor-pointer h-10 w-10 rounded-full bg-white/10 hover:bg-white/20 flex items-center justify-center disabled:opacity-50"
+              title="Refresh"
+            >
+              <IconRefresh className={`h-5 w-5 ${loading ? "animate-spin" : ""}`} />
+            </button>
+            <button
+              onClick={signOut}
+              className="cursor-pointer h-10 w-10 rounded-full bg-white/10 hover:bg-white/20 flex items-center justify-center"
+              title="Sign out"
+            >
+              <IconLogout className="h-5 w-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="grid lg:grid-cols-[420px_1fr] gap-6">
+          {/* Report list */}
+          <div className="rounded-2xl border border-white/10 bg-neutral-900/50 overflow-hidden">
+            <div className="p-3 border-b border-white/10 space-y-2">
+              <div className="flex gap-1">
+                {(["open", "resolved", "all"] as const).map((s) => (
+                  <button
+                    key={s}
+                    onClick={() => setStatus(s)}
+                    className={`cursor-pointer flex-1 h-8 rounded-lg text-sm capitalize ${
+                      status === s ? "bg-indigo-600" : "bg-white/5 hover:bg-white/10"
+                    }`}
+                  >
+                    {s}
+                  </button>
+                ))}
+              </div>
+              <form
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  refresh();
+                }}
+              >
+                <input
+                  value={subject}
+                  onChange={(e) => setSubject(e.target.value)}
+                  placeholder="Filter by user id, socket id or IP, press Enter"
+                  className="w-full h-9 px-3 rounded-lg border border-white/10 bg-white/5 text-sm outline-none focus:ring-2 focus:ring-indigo-500/60"
+                />
+              </form>
+            </div>
+            <div className="max-h-[60vh] overflow-y-auto divide-y divide-white/5">
+              {reports.length === 0 && <div className="p-6 text-center text-sm text-white/50">No reports</div>}
+              {reports.map((r) => (
+                <button
+                  key={r.id}
+                  onClick={() => openReport(r.id)}
+                  className={`cursor-pointer w-full text-left px-4 py-3 hover:bg-white/5 ${
+                    selected?.id === r.id ? "bg-white/10" : ""
+                  }`}
+                >
+                  <div className="flex items-center justify-between text-sm">
+                    <span className="font-medium truncate">{describeReport(r)}</span>
+                    <span className={`text-xs ${r.status === "open" ? "text-orange-400" : "text-white/50"}`}>
+                      {r.status}
+                    </span>
+                  </div>
+                  <div className="text-xs text-white/50 mt-1">
+                    {r.reported.name} · {fmt(r.createdAt)} · {r.evidenceCount} messages
+                  </div>
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Report detail */}
+          <div className="rounded-2xl border border-white/10 bg-neutral-900/50 p-5">
+            {!selected ? (
+              <div className="h-full flex items-center justify-center text-sm text-white/50">
+                Select a report to review its evidence
+              </div>
+            ) : (
+              <div className="space-y-5">
+                <div>
+                  <div className="text-lg font-semibold">{describeReport(selected)}</div>
+                  <div className="text-xs text-white/50">
+                    Filed {fmt(selected.createdAt)} · room {selected.roomId}
+                  </div>
+                  {selected.resolution && (
+                    <div className="mt-2 inline-flex items-center gap-1 rounded bg-white/10 px-2 py-1 text-xs">
+                      <IconCheck className="h-3 w-3" />
+                      {selected.resolution.action} {fmt(selected.resolution.resolvedAt)}
+                      {selected.resolution.note ? ` — ${selected.resolution.note}` : ""}
+                    </div>
+                  )}
+                </div>
+
+                <div className="grid sm:grid-cols-2 gap-3">
+                  <SubjectCard title="Reported" user={selected.reported} />
+                  <SubjectCard title="Reporter" user={selected.reporter} />
+                </div>
+
+                <div>
+                  <div className="text-sm font-medium mb-2">Chat evidence</div>
+                  <div className="max-h-64 overflow-y-auto rounded-xl bg-black/40 p-3 space-y-1 text-sm">
+                    {selected.evidence.chat.length === 0 && <div className="text-white/50">No chat messages</div>}
+                    {selected.evidence.chat.map((m, i) => (
+                      <div key={i} className={m.kind === "system" ? "text-xs italic text-white/50" : ""}>
+                        <span className="text-white/40 text-xs mr-2">{new Date(m.ts).toLocaleTimeString()}</span>
+                        {m.kind !== "system" && (
+                          <span
+                            className={
+                              m.clientId === selected.reported.socketId ? "text-red-400" : "text-indigo-300"
+                            }
+                          >
+                            {m.from}:{" "}
+                          </span>
+                        )}
+                        {m.deleted ? <span className="italic text-white/50">(deleted)</span> : m.text}
+                        {m.editedAt && !m.deleted && <span className="ml-1 text-xs text-white/40">(edited)</span>}
+                        {m.edits?.map((e, j) => (
+                          <div key={j} className="ml-6 text-xs text-white/50">
+                            {new Date(e.replacedAt).toLocaleTimeString()} replaced: {e.text}
+                          </div>
+                        ))}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                {selected.status === "open" && (
+                  <div className="space-y-3">
+                    <input
+                      value={note}
+                      onChange={(e) => setNote(e.target.value)}
+                      placeholder="Moderator note (optional)"
+                      className="w-full h-10 px-3 rounded-lg border border-white/10 bg-white/5 text-sm outline-none focus:ring-2 focus:ring-indigo-500/60"
+                    />
+                    <div className="flex flex-wrap items-center gap-2">
+                      <select
+                        value={banKind}
+                        onChange={(e) => setBanKind(e.target.value as BanKind)}
+                        className="h-10 px-3 rounded-lg border border-white/10 bg-neutral-800 text-sm"
+                      >
+                        <option value="user">Ban user</option>
+                        <option value="ip">Ban IP</option>
+                      </select>
+                      <select
+                        value={banMinutes ?? "permanent"}
+                        onChange={(e) =>
+                          setBanMinutes(e.target.value === "permanent" ? null : Number(e.target.value))
+                        }
+                        className="h-10 px-3 rounded-lg border border-white/10 bg-neutral-800 text-sm"
+                      >
+                        {DURATIONS.map((d) => (
+                          <option key={d.label} value={d.minutes ?? "permanent"}>
+                            {d.label}
+                          </option>
+                        ))}
+                      </select>
+                      <button
+                        onClick={ban}
+                        className="cursor-pointer h-10 px-4 rounded-lg bg-red-600 hover:bg-red-500 text-sm font-medium flex items-center gap-2"
+                      >
+                        <IconBan className="h-4 w-4" /> Ban
+                      </button>
+                      <button
+                        onClick={dismiss}
+                        className="cursor-pointer h-10 px-4 rounded-lg bg-white/10 hover:bg-white/20 text-sm font-medium"
+                      >
+                        Dismiss
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Active bans */}
+        <div className="rounded-2xl border border-white/10 bg-neutral-900/50 overflow-hidden">
+          <div className="px-4 py-3 border-b border-white/10 text-sm font-medium">Active bans ({bans.length})</div>
+          <table className="w-full text-sm">
+            <thead className="text-xs text-white/50">
+              <tr className="text-left">
+                <th className="px-4 py-2 font-normal">Kind</th>
+                <th className="px-4 py-2 font-normal">Value</th>
+                <th className="px-4 py-2 font-normal">Reason</th>
+                <th className="px-4 py-2 font-normal">Expires</th>
+                <th className="px-4 py-2" />
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-white/5">
+              {bans.map((b) => (
+                <tr key={b.id}>
+                  <td className="px-4 py-2 uppercase text-xs">{b.kind}</td>
+                  <td className="px-4 py-2 font-mono text-xs">{b.value}</td>
+                  <td className="px-4 py-2 text-white/70">{b.reason || "—"}</td>
+                  <td className="px-4 py-2 text-white/70">{b.expiresAt ? fmt(b.expiresAt) : "Never"}</td>
+                  <td className="px-4 py-2 text-right">
+                    <button
+                      onClick={() => lift(b.id)}
+                      className="cursor-pointer h-8 px-3 rounded-lg bg-white/10 hover:bg-white/20 text-xs"
+                    >
+                      Lift
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function SubjectCard({ title, user }: { title: string; user: UserSnapshot }) {
+  return (
+    <div className="rounded-xl bg-black/40 p-3 text-xs space-y-1">
+      <div className="text-sm font-medium text-white">
+        {title}: {user.name}
+      </div>
+      <div className="text-white/60">
+        {user.userId ? (
+          <>
+            User <span className="font-mono">{user.userId}</span>
+          </>
+        ) : (
+          "Guest"
+        )}
+      </div>
+      <div className="text-white/60">
+        Socket <span className="font-mono">{user.socketId}</span>
+      </div>
+      <div className="text-white/60">
+        IP <span className="font-mono">{user.ip || "unknown"}</span>
+      </div>
+      {user.ua && <div className="text-white/40 truncate" title={user.ua}>{user.ua}</div>}
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+"use client";
+import { useEffect } from "react";
+import { SignInButton, UserButton, useAuth, useUser } from "@clerk/nextjs";
+import type { Account } from "@/lib/auth";
+
+// Only render inside <ClerkProvider> (i.e. when `clerkEnabled`)
+export default function AccountPanel({ onChange }: { onChange: (account: Account | null) => void }) {
+  const { isLoaded, isSignedIn, getToken } = useAuth();
+  const { user } = useUser();
+
+  const displayName = user?.firstName || user?.username || null;
+
+  useEffect(() => {
+    if (!isLoaded) return;
+    onChange(isSignedIn ? { displayName, getToken: () => getToken() } : null);
+  }, [isLoaded, isSignedIn, displayName, getToken, onChange]);
+
+  if (!isLoaded) return null;
+
+  if (isSignedIn) {
+    return (
+      <div className="flex items-center gap-3 rounded-xl border border-white/10 bg-neutral-800/50 px-4 py-3">
+        <UserButton />
+        <div className="text-sm text-neutral-300">
+          Signed in{displayName ? ` as ${displayName}` : ""}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center justify-between gap-3 rounded-xl border border-white/10 bg-neutral-800/50 px-4 py-3">
+      <span className="text-sm text-neutral-400">Joining as a guest</span>
+      <SignInButton mode="modal">
+        <button className="cursor-pointer text-sm font-medium text-white hover:text-white/80 transition">
+          Sign in
+        </button>
+      </SignInButton>
+    </div>
+  );
+}
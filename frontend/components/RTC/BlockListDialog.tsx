@@ -0,0 +1,85 @@
+"use client";
+
+import { useState } from "react";
+import { IconLoader2, IconUserCancel } from "@tabler/icons-react";
+import type { BlockedUser } from "@shared/events";
+
+interface BlockListDialogProps {
+  show: boolean;
+  blocked: BlockedUser[];
+  onClose: () => void;
+  /** Resolves true once the server removed the block. */
+  onUnblock: (id: string) => Promise<boolean>;
+}
+
+export default function BlockListDialog({ show, blocked, onClose, onUnblock }: BlockListDialogProps) {
+  const [pending, setPending] = useState<string | null>(null);
+
+  if (!show) return null;
+
+  const unblock = async (id: string) => {
+    setPending(id);
+    await onUnblock(id);
+    setPending(null);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="blocked-title"
+      onKeyDown={(e) => {
+        if (e.key === "Escape") onClose();
+      }}
+    >
+      <div className="mx-4 w-full max-w-md rounded-2xl bg-neutral-900 border border-white/10 p-6 shadow-2xl">
+        <div className="flex items-center gap-3 mb-4">
+          <div className="flex h-10 w-10 items-center justify-center rounded-full bg-white/10">
+            <IconUserCancel className="h-5 w-5 text-neutral-300" />
+          </div>
+          <h3 id="blocked-title" className="text-lg font-semibold text-white">
+            Blocked people
+          </h3>
+        </div>
+
+        {blocked.length === 0 ? (
+          <p className="mb-6 text-sm text-neutral-400">
+            You haven&apos;t blocked anyone. People you block are never matched with you again.
+          </p>
+        ) : (
+          <ul className="mb-6 max-h-72 space-y-2 overflow-y-auto">
+            {blocked.map((b) => (
+              <li
+                key={b.id}
+                className="flex items-center justify-between gap-3 rounded-xl border border-white/10 px-4 py-2.5"
+              >
+                <div className="min-w-0">
+                  <div className="truncate text-sm text-white">{b.name}</div>
+                  <div className="text-xs text-neutral-500">
+                    Blocked {new Date(b.blockedAt).toLocaleDateString()}
+                  </div>
+                </div>
+                <button
+                  onClick={() => unblock(b.id)}
+                  disabled={pending !== null}
+                  className="cursor-pointer rounded-lg border border-white/20 px-3 py-1.5 text-xs font-medium text-white hover:bg-white/10 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-1.5"
+                >
+                  {pending === b.id && <IconLoader2 className="h-3.5 w-3.5 animate-spin" />}
+                  Unblock
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <button
+          onClick={onClose}
+          className="w-full rounded-xl border border-white/20 bg-transparent text-white px-4 py-2 font-medium hover:bg-white/10 transition-colors focus:outline-none focus:ring-2 focus:ring-white/50"
+        >
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
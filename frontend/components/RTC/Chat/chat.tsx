@@ -1,19 +1,53 @@
 "use client";
 import { useEffect, useRef, useState } from "react";
-import type { Socket } from "socket.io-client";
 import { toast } from "sonner";
+import {
+  IconAlertCircle,
+  IconCheck,
+  IconChecks,
+  IconClock,
+  IconMoodSmile,
+  IconPencil,
+  IconTrash,
+  IconX,
+} from "@tabler/icons-react";
+import type {
+  Ack,
+  AckResponse,
+  ChatHistoryItem,
+  ChatHistoryPayload,
+  ChatMessageAck,
+  ChatMessagePayload,
+  ChatReceiptPayload,
+  ChatSystemMessage,
+  ChatUpdatePayload,
+} from "@shared/events";
+import { toastOnAckError, type AppSocket } from "@/lib/socket";
 
-type ChatMessage = {
-  text: string;
-  from: string;
-  clientId: string;
-  ts: number;
-  kind?: "user" | "system";
-};
+// Own lines go sending -> sent (server stored it) -> delivered (peer's client
+// got it) -> read (peer had the chat open); failed = out of automatic retries
+type DeliveryStatus = "sending" | "failed" | "sent" | "delivered" | "read";
+
+// `id` is a local placeholder until the server acks an own line
+type ChatMessage = ChatHistoryItem & { localId?: string; status?: DeliveryStatus };
 
 const MAX_LEN = 1000;        // match server cap
 const MAX_BUFFER = 300;      // keep memory tidy
 const TYPING_DEBOUNCE = 350; // ms
+const SEND_ACK_TIMEOUT = 5000; // ms
+const SEND_ATTEMPTS = 3;     // automatic tries before a line shows as failed
+const RETRY_BASE = 1000;     // ms, doubles per attempt
+const READ_DEBOUNCE = 300;   // ms
+const MAX_READ_IDS = 100;    // match server cap per chat:read
+const REACTIONS = ["👍", "❤️", "😂", "😮", "😢", "🎉"];
+
+// Receipts may arrive out of order; a status never moves backwards
+const STATUS_RANK: Record<DeliveryStatus, number> = { sending: 0, failed: 0, sent: 1, delivered: 2, read: 3 };
+
+const capped = (next: ChatMessage[]) => (next.length > MAX_BUFFER ? next.slice(-MAX_BUFFER) : next);
+
+// crypto.randomUUID needs a secure context, which plain-http LAN dev lacks
+const newLocalId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
 
 export default function ChatPanel({
   socket,
@@ -23,7 +57,7 @@ export default function ChatPanel({
   collapsed = false,
   isOpen = false,
 }: {
-  socket: Socket | null;
+  socket: AppSocket | null;
   roomId: string | null;
   name: string;
   mySocketId: string | null;
@@ -33,11 +67,17 @@ export default function ChatPanel({
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [input, setInput] = useState("");
   const [peerTyping, setPeerTyping] = useState<string | null>(null);
+  const [editing, setEditing] = useState<ChatMessage | null>(null);
+  const [pickerFor, setPickerFor] = useState<string | null>(null);
   const scrollerRef = useRef<HTMLDivElement>(null);
   const typingTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const typingDebounceRef = useRef<ReturnType<typeof setTimeout> | null>(null);
   const sidRef = useRef<string | null>(mySocketId ?? null);
   const didJoinRef = useRef<Record<string, string>>({});
+  const isOpenRef = useRef(isOpen);
+  const readRef = useRef(new Set<string>()); // peer lines already reported read
+  const retryTimersRef = useRef(new Set<ReturnType<typeof setTimeout>>());
+  const [pageVisible, setPageVisible] = useState(true);
 
   // derive & keep socket.id fresh for self-dedupe
   useEffect(() => {
@@ -56,11 +96,29 @@ export default function ChatPanel({
 
   // Dismiss existing toasts when chat window opens
   useEffect(() => {
+    isOpenRef.current = isOpen;
     if (isOpen) {
       toast.dismiss();
     }
   }, [isOpen]);
 
+  // an open drawer in a background tab is not being read
+  useEffect(() => {
+    const onVisibility = () => setPageVisible(document.visibilityState === "visible");
+    onVisibility();
+    document.addEventListener("visibilitychange", onVisibility);
+    return () => document.removeEventListener("visibilitychange", onVisibility);
+  }, []);
+
+  // drop pending retries on unmount
+  useEffect(() => {
+    const timers = retryTimersRef.current;
+    return () => {
+      timers.forEach(clearTimeout);
+      timers.clear();
+    };
+  }, []);
+
   // auto-scroll to bottom on new messages - DISABLED per user request
   // useEffect(() => {
   //   scrollerRef.current?.scrollTo({
@@ -88,17 +146,16 @@ export default function ChatPanel({
       joinOnce();
     };
 
-    const onMsg = (m: ChatMessage) => {
-      // skip server echo of my optimistic send
-      const myId = mySocketId || sidRef.current;
-      if (m.clientId === myId) return;
+    const onMsg = (m: ChatHistoryItem, ack: Ack) => {
+      // tells the sender it was delivered
+      ack({ ok: true });
       setMessages((prev) => {
-        const next = [...prev, { ...m, kind: "user" as const }];
-        return next.length > MAX_BUFFER ? next.slice(-MAX_BUFFER) : next;
+        if (prev.some((x) => x.id === m.id)) return prev;
+        return capped([...prev, { ...m, kind: "user" as const }]);
       });
         try {
           // Only show toast if chat window is closed
-          if (!isOpen) {
+          if (!isOpenRef.current) {
             // Hide actual username in notification for privacy - always show "Peer"
             toast.success(
               `Peer: ${m.text.length > 80 ? m.text.slice(0, 77) + '...' : m.text}`,
@@ -115,7 +172,7 @@ export default function ChatPanel({
         } catch {}
     };
 
-    const onSystem = (m: { text: string; ts?: number }) => {
+    const onSystem = (m: ChatSystemMessage) => {
       // normalize system text: keep my own name, anonymize peers as "peer"
       const normalize = (txt: string) => {
         try {
@@ -136,11 +193,11 @@ export default function ChatPanel({
         // simple de-dupe: if last system message has identical text, skip
         const last = prev[prev.length - 1];
         if (last?.kind === "system" && last.text === text) return prev;
-        const next = [
+        if (prev.some((x) => x.id === m.id)) return prev;
+        return capped([
           ...prev,
-          { text, from: "system", clientId: "system", ts: m.ts ?? Date.now(), kind: "system" as const },
-        ];
-        return next.length > MAX_BUFFER ? next.slice(-MAX_BUFFER) : next;
+          { id: m.id, text, from: "system", clientId: "system", ts: m.ts ?? Date.now(), kind: "system" as const },
+        ]);
       });
     };
 
@@ -159,26 +216,45 @@ export default function ChatPanel({
     //   onSystem({ text: `Your partner left (${reason}).` });
     // };
 
-    // Server-sent history: merge with current messages and de-dupe
-    const onHistory = (payload: { roomId: string; messages: ChatMessage[] }) => {
+    // Server-sent history: merge with current messages and de-dupe by id
+    const onHistory = (payload: ChatHistoryPayload) => {
       if (!payload || payload.roomId !== roomId) return;
       const incoming = Array.isArray(payload.messages) ? payload.messages : [];
       if (incoming.length === 0) return;
       setMessages((prev) => {
-        const keyOf = (x: ChatMessage) => `${x.kind || 'user'}|${x.ts}|${x.clientId}|${x.text}`;
-        const seen = new Set(prev.map(keyOf));
-        const add = incoming.filter((m) => !seen.has(keyOf(m)));
+        const seen = new Set(prev.map((x) => x.id));
+        const add = incoming.filter((m) => !seen.has(m.id));
         if (add.length === 0) return prev;
-        const merged = [...prev, ...add];
-        return merged.length > MAX_BUFFER ? merged.slice(-MAX_BUFFER) : merged;
+        return capped([...prev, ...add]);
       });
     };
 
+    // Delivery and read receipts for my lines
+    const onReceipt = ({ roomId: rid, ids, status }: ChatReceiptPayload) => {
+      if (rid !== roomId) return;
+      const hit = new Set(ids);
+      setMessages((prev) =>
+        prev.map((m) =>
+          m.status && hit.has(m.id) && STATUS_RANK[status] > STATUS_RANK[m.status] ? { ...m, status } : m
+        )
+      );
+    };
+
+    // An edit, delete or reaction: take the line's new state, keeping local delivery info
+    const onUpdate = ({ roomId: rid, message }: ChatUpdatePayload) => {
+      if (rid !== roomId) return;
+      setMessages((prev) =>
+        prev.map((m) => (m.id === message.id ? { ...message, localId: m.localId, status: m.status } : m))
+      );
+    };
+
     socket.on("connect", onConnect);
     socket.on("chat:message", onMsg);
     socket.on("chat:system", onSystem);
     socket.on("chat:typing", onTyping);
     socket.on("chat:history", onHistory);
+    socket.on("chat:receipt", onReceipt);
+    socket.on("chat:update", onUpdate);
     // socket.on("partner:left", onPartnerLeft);
 
     // perform initial join only once per socket.id+room
@@ -192,6 +268,8 @@ export default function ChatPanel({
       socket.off("chat:system", onSystem);
       socket.off("chat:typing", onTyping);
       socket.off("chat:history", onHistory);
+      socket.off("chat:receipt", onReceipt);
+      socket.off("chat:update", onUpdate);
       // socket.off("partner:left", onPartnerLeft);
       // stop typing when leaving room/unmounting
       socket.emit("chat:typing", { roomId, from: name, typing: false });
@@ -200,26 +278,123 @@ export default function ChatPanel({
     };
   }, [socket, roomId]);
 
+  // Report the peer's lines as read while the drawer is open and visible
+  useEffect(() => {
+    if (!socket || !roomId || !isOpen || !pageVisible) return;
+    const myId = mySocketId || sidRef.current;
+    const unread = messages
+      .filter((m) => m.kind !== "system" && !m.status && m.clientId !== myId && !readRef.current.has(m.id))
+      .map((m) => m.id);
+    if (unread.length === 0) return;
+    const t = setTimeout(() => {
+      unread.forEach((id) => readRef.current.add(id));
+      for (let i = 0; i < unread.length; i += MAX_READ_IDS) {
+        socket.emit("chat:read", { roomId, ids: unread.slice(i, i + MAX_READ_IDS) });
+      }
+    }, READ_DEBOUNCE);
+    return () => clearTimeout(t);
+  }, [socket, roomId, isOpen, pageVisible, messages, mySocketId]);
+
+  const patchLocal = (localId: string, patch: Partial<ChatMessage>) => {
+    setMessages((prev) => prev.map((m) => (m.localId === localId ? { ...m, ...patch } : m)));
+  };
+
+  // Send until the server acks; timeouts and server-side hiccups are retried
+  // with backoff (the shared localId keeps a retry from being stored twice)
+  const deliver = async (payload: ChatMessagePayload, attempt = 1) => {
+    if (!socket) return;
+    let res: AckResponse<ChatMessageAck> | null = null;
+    try {
+      res = await socket.timeout(SEND_ACK_TIMEOUT).emitWithAck("chat:message", payload);
+    } catch {
+      // no ack in time
+    }
+    if (res?.ok) {
+      patchLocal(payload.localId, { id: res.id, status: "sent" });
+      return;
+    }
+    const retriable = !res || res.error.code === "RATE_LIMITED" || res.error.code === "INTERNAL";
+    if (retriable && attempt < SEND_ATTEMPTS) {
+      const timer = setTimeout(() => {
+        retryTimersRef.current.delete(timer);
+        deliver(payload, attempt + 1);
+      }, RETRY_BASE * 2 ** (attempt - 1));
+      retryTimersRef.current.add(timer);
+      return;
+    }
+    patchLocal(payload.localId, { status: "failed" });
+    try {
+      toast.error("Message not sent", { description: res ? res.error.message : "The server did not respond" });
+    } catch {}
+  };
+
+  const retry = (m: ChatMessage) => {
+    if (!canSend || !m.localId) return;
+    patchLocal(m.localId, { status: "sending" });
+    deliver({ roomId: roomId!, text: m.text, from: m.from, clientId: m.clientId, localId: m.localId, ts: m.ts });
+  };
+
+  const startEdit = (m: ChatMessage) => {
+    setEditing(m);
+    setInput(m.text);
+    setPickerFor(null);
+  };
+
+  const cancelEdit = () => {
+    setEditing(null);
+    setInput("");
+  };
+
+  const saveEdit = () => {
+    if (!canSend || !editing || !input.trim()) return;
+    const text = input.trim().slice(0, MAX_LEN);
+    if (text !== editing.text) {
+      socket!.emit("chat:edit", { roomId: roomId!, id: editing.id, text }, toastOnAckError("Message not edited"));
+    }
+    cancelEdit();
+  };
+
+  const deleteMessage = (m: ChatMessage) => {
+    if (!canSend) return;
+    if (editing?.id === m.id) cancelEdit();
+    socket!.emit("chat:delete", { roomId: roomId!, id: m.id }, toastOnAckError("Message not deleted"));
+  };
+
+  const react = (m: ChatMessage, emoji: string) => {
+    setPickerFor(null);
+    if (!canSend) return;
+    socket!.emit("chat:react", { roomId: roomId!, id: m.id, emoji }, toastOnAckError("Reaction not sent"));
+  };
+
   const sendMessage = () => {
+    if (editing) return saveEdit();
     if (!canSend || !input.trim()) return;
     const myId = mySocketId || sidRef.current!;
-    const payload = {
+    const payload: ChatMessagePayload = {
       roomId: roomId!,
       text: input.trim().slice(0, MAX_LEN),
       from: name,
       clientId: myId,
+      localId: newLocalId(),
       ts: Date.now(),
     };
     // optimistic add
-    setMessages((prev) => {
-      const next = [...prev, { ...payload, kind: "user" as const }];
-      return next.length > MAX_BUFFER ? next.slice(-MAX_BUFFER) : next;
-    });
-    try {
-      // toast for outgoing message (short & subtle)
-      toast.success("Message sent", { duration: 1200 });
-    } catch {}
-    socket!.emit("chat:message", payload);
+    setMessages((prev) =>
+      capped([
+        ...prev,
+        {
+          id: `local:${payload.localId}`,
+          text: payload.text,
+          from: payload.from,
+          clientId: payload.clientId,
+          ts: payload.ts!,
+          kind: "user" as const,
+          localId: payload.localId,
+          status: "sending" as const,
+        },
+      ])
+    );
+    deliver(payload);
     setInput("");
     socket!.emit("chat:typing", { roomId, from: name, typing: false });
   };
@@ -239,31 +414,93 @@ export default function ChatPanel({
   return (
     <div className="flex flex-col h-full bg-neutral-950 rounded-l-2xl overflow-hidden">
       <div ref={scrollerRef} className="flex-1 overflow-y-auto px-3 py-3 space-y-2">
-        {messages.map((m, idx) => {
+        {messages.map((m) => {
           const myId = mySocketId || sidRef.current;
-          const mine = m.clientId === myId;
-          const isSystem = m.kind === "system";
-          return (
-            <div key={idx} className={`flex ${isSystem ? "justify-center" : mine ? "justify-end" : "justify-start"}`}>
-              <div
-                className={
-                  isSystem
-                    ? "text-xs text-white/50 italic"
-                    : `max-w-[75%] rounded-2xl px-3 py-2 text-sm ${
-                        mine ? "bg-indigo-600 text-white" : "bg-white/10 text-white/90"
-                      }`
-                }
-                title={new Date(m.ts).toLocaleTimeString()}
-              >
-                {isSystem ? (
+          const mine = !!m.status || m.clientId === myId;
+          if (m.kind === "system") {
+            return (
+              <div key={m.id} className="flex justify-center">
+                <div className="text-xs text-white/50 italic" title={new Date(m.ts).toLocaleTimeString()}>
                   <span>{m.text}</span>
-                ) : (
-                  <>
-                    {!mine && <div className="text-[10px] text-white/60 mb-1">Peer</div>}
-                    <div>{m.text}</div>
-                  </>
+                </div>
+              </div>
+            );
+          }
+          // only lines the server acked have an id it knows
+          const synced = m.status !== "sending" && m.status !== "failed";
+          const actions = synced && !m.deleted && (
+            <div className="flex items-center gap-0.5 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+              <IconButton label="React" onClick={() => setPickerFor(pickerFor === m.id ? null : m.id)}>
+                <IconMoodSmile className="h-3.5 w-3.5" />
+              </IconButton>
+              {mine && (
+                <>
+                  <IconButton label="Edit" onClick={() => startEdit(m)}>
+                    <IconPencil className="h-3.5 w-3.5" />
+                  </IconButton>
+                  <IconButton label="Delete" onClick={() => deleteMessage(m)}>
+                    <IconTrash className="h-3.5 w-3.5" />
+                  </IconButton>
+                </>
+              )}
+            </div>
+          );
+          return (
+            <div key={m.localId ?? m.id} className={`group flex items-center gap-1 ${mine ? "justify-end" : "justify-start"}`}>
+              {mine && actions}
+              <div className={`flex max-w-[75%] flex-col gap-1 ${mine ? "items-end" : "items-start"}`}>
+                <div
+                  className={`rounded-2xl px-3 py-2 text-sm ${
+                    mine ? "bg-indigo-600 text-white" : "bg-white/10 text-white/90"
+                  } ${editing?.id === m.id ? "ring-2 ring-white/60" : ""}`}
+                  title={new Date(m.ts).toLocaleTimeString()}
+                >
+                  {!mine && <div className="text-[10px] text-white/60 mb-1">Peer</div>}
+                  {m.deleted ? (
+                    <div className="italic text-white/60">Message deleted</div>
+                  ) : (
+                    <div>
+                      {m.text}
+                      {m.editedAt && <span className="ml-1.5 text-[10px] text-white/60">(edited)</span>}
+                    </div>
+                  )}
+                  {m.status && <DeliveryTicks status={m.status} onRetry={() => retry(m)} />}
+                </div>
+                {pickerFor === m.id && (
+                  <div className="flex gap-1 rounded-full bg-neutral-800 border border-white/10 px-2 py-1">
+                    {REACTIONS.map((emoji) => (
+                      <button
+                        key={emoji}
+                        onClick={() => react(m, emoji)}
+                        className="cursor-pointer rounded-full px-1 text-base hover:bg-white/10"
+                        aria-label={`React with ${emoji}`}
+                      >
+                        {emoji}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                {!!m.reactions?.length && !m.deleted && (
+                  <div className="flex flex-wrap gap-1">
+                    {m.reactions.map((r) => {
+                      const reacted = !!myId && r.by.includes(myId);
+                      return (
+                        <button
+                          key={r.emoji}
+                          onClick={() => react(m, r.emoji)}
+                          className={`cursor-pointer rounded-full border px-1.5 py-0.5 text-xs ${
+                            reacted ? "border-indigo-400 bg-indigo-500/20" : "border-white/10 bg-white/5 hover:bg-white/10"
+                          }`}
+                          aria-pressed={reacted}
+                        >
+                          {r.emoji} {r.by.length}
+                        </button>
+                      );
+                    })}
+                  </div>
                 )}
               </div>
+              {!mine && actions}
             </div>
           );
         })}
@@ -271,6 +508,14 @@ export default function ChatPanel({
       </div>
 
       <div className="p-3 border-t border-white/10">
+        {editing && (
+          <div className="mb-2 flex items-center justify-between text-xs text-white/60">
+            <span>Editing message</span>
+            <IconButton label="Cancel editing" onClick={cancelEdit}>
+              <IconX className="h-3.5 w-3.5" />
+            </IconButton>
+          </div>
+        )}
         <div className="flex items-center gap-2">
           <input
             className="flex-1 bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-sm outline-none focus:ring-2 focus:ring-indigo-500/60"
@@ -279,6 +524,7 @@ export default function ChatPanel({
             onChange={(e) => handleTyping(e.target.value)}
             onKeyDown={(e) => {
               if (e.key === "Enter") sendMessage();
+              if (e.key === "Escape" && editing) cancelEdit();
             }}
             disabled={!canSend}
             maxLength={MAX_LEN}
@@ -288,10 +534,44 @@ export default function ChatPanel({
             disabled={!canSend || !input.trim()}
             className="cursor-pointer h-10 px-4 rounded-xl bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-sm font-medium"
           >
-            Send
+            {editing ? "Save" : "Send"}
           </button>
         </div>
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
+
+function DeliveryTicks({ status, onRetry }: { status: DeliveryStatus; onRetry: () => void }) {
+  if (status === "failed") {
+    return (
+      <div className="mt-1 flex items-center justify-end gap-1 text-[10px] text-red-200">
+        <IconAlertCircle className="h-3 w-3" />
+        <span>Not sent</span>
+        <button onClick={onRetry} className="cursor-pointer underline hover:text-white">
+          Retry
+        </button>
+      </div>
+    );
+  }
+  const label = { sending: "Sending", sent: "Sent", delivered: "Delivered", read: "Read" }[status];
+  const Icon = status === "sending" ? IconClock : status === "sent" ? IconCheck : IconChecks;
+  return (
+    <div className="mt-0.5 flex justify-end" title={label} aria-label={label}>
+      <Icon className={`h-3.5 w-3.5 ${status === "read" ? "text-sky-300" : "text-white/60"}`} />
+    </div>
+  );
+}
+
+function IconButton({ label, onClick, children }: { label: string; onClick: () => void; children: React.ReactNode }) {
+  return (
+    <button
+      onClick={onClick}
+      title={label}
+      aria-label={label}
+      className="cursor-pointer rounded-full p-1 text-white/50 hover:bg-white/10 hover:text-white"
+    >
+      {children}
+    </button>
+  );
+}
@@ -12,9 +12,15 @@ import {
   IconRefresh,
   IconMessage,
   IconFlag,
+  IconBan,
+  IconUserCancel,
 } from "@tabler/icons-react";
+import { useState } from "react";
 import { MediaState } from "./VideoGrid";
 import Tooltip from "../ui/tooltip";
+import ReportDialog, { type ReportInput } from "./ReportDialog";
+import BlockListDialog from "./BlockListDialog";
+import type { BlockedUser } from "@shared/events";
 
 interface ControlBarProps {
   mediaState: MediaState;
@@ -26,7 +32,12 @@ interface ControlBarProps {
   onRecheck: () => void;
   onNext: () => void;
   onLeave: () => void;
-  onReport: () => void;
+  onReport: (input: ReportInput) => Promise<boolean>;
+  blocked: BlockedUser[];
+  onBlock: () => void;
+  onUnblock: (id: string) => Promise<boolean>;
+  // Seconds until skipping is possible again (0 = no cooldown)
+  cooldownLeft: number;
 }
 
 export default function ControlBar({
@@ -39,9 +50,15 @@ export default function ControlBar({
   onRecheck,
   onNext,
   onLeave,
-  onReport
+  onReport,
+  blocked,
+  onBlock,
+  onUnblock,
+  cooldownLeft
 }: ControlBarProps) {
   const { micOn, camOn, screenShareOn } = mediaState;
+  const [showReport, setShowReport] = useState(false);
+  const [showBlocked, setShowBlocked] = useState(false);
 
   return (
     <div className="fixed bottom-0 left-0 right-0 h-20 z-50">
@@ -90,12 +107,17 @@ export default function ControlBar({
             </button>
           </Tooltip>
 
-          <Tooltip content="Next match">
+          <Tooltip content={cooldownLeft > 0 ? `Skipping too fast, next match in ${cooldownLeft}s` : "Next match"}>
             <button
               onClick={onNext}
-              className="cursor-pointer h-11 w-11 rounded-full bg-white/10 hover:bg-white/20 flex items-center justify-center"
+              disabled={cooldownLeft > 0}
+              className="cursor-pointer relative h-11 w-11 rounded-full bg-white/10 hover:bg-white/20 flex items-center justify-center disabled:cursor-not-allowed disabled:hover:bg-white/10"
             >
-              <IconUserOff className="h-5 w-5" />
+              {cooldownLeft > 0 ? (
+                <span className="text-sm font-medium tabular-nums text-amber-400">{cooldownLeft}s</span>
+              ) : (
+                <IconUserOff className="h-5 w-5" />
+              )}
             </button>
           </Tooltip>
 
@@ -126,15 +148,46 @@ export default function ControlBar({
             
             <Tooltip content="Report user">
               <button
-                onClick={onReport}
+                onClick={() => setShowReport(true)}
                 className="cursor-pointer h-11 w-11 rounded-full bg-white/10 hover:bg-white/20 flex items-center justify-center"
               >
                 <IconFlag className="h-5 w-5" />
               </button>
             </Tooltip>
+
+            <Tooltip content="Block user">
+              <button
+                onClick={onBlock}
+                className="cursor-pointer h-11 w-11 rounded-full bg-white/10 hover:bg-white/20 flex items-center justify-center"
+              >
+                <IconBan className="h-5 w-5" />
+              </button>
+            </Tooltip>
+
+            <Tooltip content="Blocked people">
+              <button
+                onClick={() => setShowBlocked(true)}
+                className="cursor-pointer relative h-11 w-11 rounded-full bg-white/10 hover:bg-white/20 flex items-center justify-center"
+              >
+                <IconUserCancel className="h-5 w-5" />
+                {blocked.length > 0 && (
+                  <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-red-600 text-[10px] leading-4 font-medium">
+                    {blocked.length}
+                  </span>
+                )}
+              </button>
+            </Tooltip>
           </div>
         </div>
       </div>
+
+      <ReportDialog show={showReport} onClose={() => setShowReport(false)} onSubmit={onReport} />
+      <BlockListDialog
+        show={showBlocked}
+        blocked={blocked}
+        onClose={() => setShowBlocked(false)}
+        onUnblock={onUnblock}
+      />
     </div>
   );
 }
\ No newline at end of file
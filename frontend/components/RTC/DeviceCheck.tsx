@@ -1,5 +1,5 @@
 "use client";
-import { useEffect, useRef, useState } from "react";
+import { useCallback, useEffect, useRef, useState } from "react";
 import Room from "./Room";
 import { toast } from "sonner";
 import { 
@@ -11,20 +11,39 @@ import {
   IconUser
 } from "@tabler/icons-react";
 import Tooltip from "../ui/tooltip";
+import type { MatchPreferences } from "@shared/events";
+import {
+  INDUSTRIES,
+  LANGUAGES,
+  SKILL_LEVELS,
+  loadPreferences,
+  savePreferences,
+} from "@/lib/preferences";
+import { clerkEnabled, type Account } from "@/lib/auth";
+import AccountPanel from "../Auth/AccountPanel";
 
 export default function DeviceCheck() {
   const [name, setName] = useState("");
   const [localAudioTrack, setLocalAudioTrack] = useState<MediaStreamTrack | null>(null);
   const [localVideoTrack, setLocalVideoTrack] = useState<MediaStreamTrack | null>(null);
   const [joined, setJoined] = useState(false);
+  const [step, setStep] = useState<"name" | "preferences">("name");
+  const [preferences, setPreferences] = useState<MatchPreferences>({});
   const [videoOn, setVideoOn] = useState(true);
   const [audioOn, setAudioOn] = useState(true);
+  const [account, setAccount] = useState<Account | null>(null);
 
   const videoRef = useRef<HTMLVideoElement>(null);
 const localAudioTrackRef = useRef<MediaStreamTrack | null>(null);
 const localVideoTrackRef = useRef<MediaStreamTrack | null>(null);
 const getCamRef = useRef<() => Promise<void>>(() => Promise.resolve());
 
+  // Prefill the name from the signed-in account unless one was typed already
+  const handleAccountChange = useCallback((next: Account | null) => {
+    setAccount(next);
+    if (next?.displayName) setName((current) => current || next.displayName!);
+  }, []);
+
   const getCam = async () => {
  try {
       localAudioTrackRef.current?.stop();
@@ -100,6 +119,23 @@ const getCamRef = useRef<() => Promise<void>>(() => Promise.resolve());
 useEffect(() => {
   getCamRef.current = getCam;
 });
+  useEffect(() => {
+    setPreferences(loadPreferences());
+  }, []);
+
+  const join = () => {
+    savePreferences(preferences);
+    setJoined(true);
+  };
+
+  // Match with anyone this time, without forgetting the saved choices
+  const skipPreferences = () => {
+    setPreferences({});
+    setJoined(true);
+  };
+
+  const selectClass =
+    "w-full h-12 px-4 rounded-xl border border-white/10 bg-neutral-800/50 text-white focus:border-white/30 focus:outline-none transition-colors backdrop-blur";
   if (joined) {
     const handleOnLeave = () => {
       setJoined(false);
@@ -116,6 +152,8 @@ useEffect(() => {
     return (
       <Room
         name={name}
+        preferences={preferences}
+        getAuthToken={account?.getToken}
         localAudioTrack={localAudioTrack}
         localVideoTrack={localVideoTrack}
         audioOn={audioOn}
@@ -214,25 +252,124 @@ useEffect(() => {
                 <div className="flex flex-col gap-4">
                   <h2 className="text-2xl font-semibold text-white">Join the conversation</h2>
                   
-                  <div className="flex flex-col gap-1">
-                    <label className="block text-sm font-medium text-gray-300">
-                      What should we call you?
-                    </label>
-                    <input
-                      type="text"
-                      value={name}
-                      onChange={(e) => setName(e.target.value)}
-                      placeholder="Enter your name"
-                      className="w-full h-12 px-4 rounded-xl border border-white/10 bg-neutral-800/50 text-white placeholder-neutral-500 focus:border-white/30 focus:outline-none transition-colors backdrop-blur"
-                    />
-                    </div>
-                    <button
-                      onClick={() => setJoined(true)}
-                      disabled={!name.trim()}
-                      className="cursor-pointer w-full h-12 bg-white text-black rounded-xl font-medium hover:bg-white/90 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 disabled:hover:bg-white"
-                    >
-                      Join Meeting
-                    </button>
+                  {step === "name" ? (
+                    <>
+                      {clerkEnabled && <AccountPanel onChange={handleAccountChange} />}
+                      <div className="flex flex-col gap-1">
+                        <label className="block text-sm font-medium text-gray-300">
+                          What should we call you?
+                        </label>
+                        <input
+                          type="text"
+                          value={name}
+                          onChange={(e) => setName(e.target.value)}
+                          onKeyDown={(e) => {
+                            if (e.key === "Enter" && name.trim()) setStep("preferences");
+                          }}
+                          placeholder="Enter your name"
+                          className="w-full h-12 px-4 rounded-xl border border-white/10 bg-neutral-800/50 text-white placeholder-neutral-500 focus:border-white/30 focus:outline-none transition-colors backdrop-blur"
+                        />
+                      </div>
+                      <button
+                        onClick={() => setStep("preferences")}
+                        disabled={!name.trim()}
+                        className="cursor-pointer w-full h-12 bg-white text-black rounded-xl font-medium hover:bg-white/90 disabled:opacity-50 disabled:cursor-not-allowed transition-all duration-200 disabled:hover:bg-white"
+                      >
+                        Next
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <p className="text-sm text-neutral-400">
+                        We&apos;ll look for someone who shares these first, then widen the search.
+                      </p>
+
+                      <div className="flex flex-col gap-1">
+                        <label className="block text-sm font-medium text-gray-300">Language</label>
+                        <select
+                          value={preferences.language ?? ""}
+                          onChange={(e) =>
+                            setPreferences((p) => ({ ...p, language: e.target.value || undefined }))
+                          }
+                          className={selectClass}
+                        >
+                          <option value="">Any language</option>
+                          {LANGUAGES.map((l) => (
+                            <option key={l.value} value={l.value}>
+                              {l.label}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+
+                      <div className="flex flex-col gap-1">
+                        <label className="block text-sm font-medium text-gray-300">Industry</label>
+                        <select
+                          value={preferences.industry ?? ""}
+                          onChange={(e) =>
+                            setPreferences((p) => ({ ...p, industry: e.target.value || undefined }))
+                          }
+                          className={selectClass}
+                        >
+                          <option value="">Any industry</option>
+                          {INDUSTRIES.map((i) => (
+                            <option key={i.value} value={i.value}>
+                              {i.label}
+                            </option>
+                          ))}
+                        </select>
+                      </div>
+
+                      <div className="flex flex-col gap-1">
+                        <label className="block text-sm font-medium text-gray-300">Skill level</label>
+                        <div className="grid grid-cols-3 gap-2">
+                          {SKILL_LEVELS.map((s) => {
+                            const active = preferences.skillBucket === s.value;
+                            return (
+                              <button
+                                key={s.value}
+                                type="button"
+                                onClick={() =>
+                                  setPreferences((p) => ({
+                                    ...p,
+                                    skillBucket: active ? undefined : s.value,
+                                  }))
+                                }
+                                className={`cursor-pointer h-10 rounded-xl border text-sm transition ${
+                                  active
+                                    ? "border-white bg-white text-black"
+                                    : "border-white/10 bg-neutral-800/50 text-white hover:border-white/30"
+                                }`}
+                              >
+                                {s.label}
+                              </button>
+                            );
+                          })}
+                        </div>
+                      </div>
+
+                      <button
+                        onClick={join}
+                        className="cursor-pointer w-full h-12 bg-white text-black rounded-xl font-medium hover:bg-white/90 transition-all duration-200"
+                      >
+                        Join Meeting
+                      </button>
+                      <div className="flex items-center justify-between text-sm">
+                        <button
+                          onClick={() => setStep("name")}
+                          className="cursor-pointer text-neutral-400 hover:text-white transition"
+                        >
+                          Back
+                        </button>
+                        <button
+                          onClick={skipPreferences}
+                          className="cursor-pointer text-neutral-400 hover:text-white transition"
+                        >
+                          Skip, match with anyone
+                        </button>
+                      </div>
+                    </>
+                  )}
 
                   <p className="text-xs text-neutral-500 text-center">
                     By joining, you agree to our terms of service and privacy policy
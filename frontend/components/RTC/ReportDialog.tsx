@@ -0,0 +1,140 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { IconFlag, IconLoader2 } from "@tabler/icons-react";
+import type { ReportCategory } from "@shared/events";
+
+export interface ReportInput {
+  category: ReportCategory;
+  reason?: string;
+  block: boolean;
+}
+
+interface ReportDialogProps {
+  show: boolean;
+  onClose: () => void;
+  /** Resolves true once the server accepted the report. */
+  onSubmit: (input: ReportInput) => Promise<boolean>;
+}
+
+const CATEGORIES: { value: ReportCategory; label: string }[] = [
+  { value: "harassment", label: "Harassment or hate" },
+  { value: "nudity", label: "Nudity or sexual content" },
+  { value: "spam", label: "Spam or scam" },
+  { value: "impersonation", label: "Impersonation" },
+  { value: "other", label: "Something else" },
+];
+
+export default function ReportDialog({ show, onClose, onSubmit }: ReportDialogProps) {
+  const [category, setCategory] = useState<ReportCategory | null>(null);
+  const [details, setDetails] = useState("");
+  const [block, setBlock] = useState(true);
+  const [submitting, setSubmitting] = useState(false);
+
+  // Start fresh every time the dialog opens
+  useEffect(() => {
+    if (!show) return;
+    setCategory(null);
+    setDetails("");
+    setBlock(true);
+    setSubmitting(false);
+  }, [show]);
+
+  if (!show) return null;
+
+  const needsDetails = category === "other" && !details.trim();
+  const canSubmit = !!category && !needsDetails && !submitting;
+
+  const submit = async () => {
+    if (!category || !canSubmit) return;
+    setSubmitting(true);
+    const ok = await onSubmit({ category, reason: details.trim() || undefined, block });
+    setSubmitting(false);
+    if (ok) onClose();
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center bg-black/50 backdrop-blur-sm"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="report-title"
+      onKeyDown={(e) => {
+        if (e.key === "Escape" && !submitting) onClose();
+      }}
+    >
+      <div className="mx-4 w-full max-w-md rounded-2xl bg-neutral-900 border border-white/10 p-6 shadow-2xl">
+        <div className="flex items-center gap-3 mb-4">
+          <div className="flex h-10 w-10 items-center justify-center rounded-full bg-red-600/20">
+            <IconFlag className="h-5 w-5 text-red-400" />
+          </div>
+          <h3 id="report-title" className="text-lg font-semibold text-white">
+            Report user
+          </h3>
+        </div>
+
+        <div className="space-y-2 mb-4" role="radiogroup" aria-label="Reason">
+          {CATEGORIES.map((c) => (
+            <label
+              key={c.value}
+              className={`flex items-center gap-3 rounded-xl border px-4 py-2.5 text-sm cursor-pointer transition-colors ${
+                category === c.value
+                  ? "border-red-500/60 bg-red-500/10 text-white"
+                  : "border-white/10 text-neutral-300 hover:bg-white/5"
+              }`}
+            >
+              <input
+                type="radio"
+                name="report-category"
+                value={c.value}
+                checked={category === c.value}
+                onChange={() => setCategory(c.value)}
+                className="accent-red-500"
+              />
+              {c.label}
+            </label>
+          ))}
+        </div>
+
+        <textarea
+          value={details}
+          onChange={(e) => setDetails(e.target.value.slice(0, 500))}
+          placeholder={category === "other" ? "Tell us what happened" : "Add details (optional)"}
+          rows={3}
+          className="w-full resize-none rounded-xl border border-white/10 bg-white/5 px-3 py-2 text-sm text-white placeholder-neutral-500 outline-none focus:ring-2 focus:ring-red-500/50 mb-4"
+        />
+
+        <label className="flex items-start gap-3 mb-6 text-sm text-neutral-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={block}
+            onChange={(e) => setBlock(e.target.checked)}
+            className="mt-0.5 accent-red-500"
+          />
+          <span>
+            End the call and block this person
+            <span className="block text-xs text-neutral-500">You won&apos;t be matched with them again.</span>
+          </span>
+        </label>
+
+        <div className="flex gap-3">
+          <button
+            onClick={submit}
+            disabled={!canSubmit}
+            className="flex-1 rounded-xl bg-red-600 text-white px-4 py-2 font-medium hover:bg-red-500 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center gap-2 focus:outline-none focus:ring-2 focus:ring-red-500/50"
+          >
+            {submitting && <IconLoader2 className="h-4 w-4 animate-spin" />}
+            {submitting ? "Sending…" : "Submit report"}
+          </button>
+          <button
+            onClick={onClose}
+            disabled={submitting}
+            className="flex-1 rounded-xl border border-white/20 bg-transparent text-white px-4 py-2 font-medium hover:bg-white/10 transition-colors disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-white/50"
+          >
+            Cancel
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,26 +1,45 @@
 "use client";
 
 import { useEffect, useRef } from "react";
-import { io, Socket } from "socket.io-client";
+import { io } from "socket.io-client";
 import { toast } from "sonner";
 import { useRouter } from "next/navigation";
 import ChatPanel from "./Chat/chat"; // ← adjust path if different
 import VideoGrid from "./VideoGrid";
 import ControlBar from "./ControlBar";
 import TimeoutAlert from "./TimeoutAlert";
-import { useMediaState, usePeerState, useRoomState } from "./hooks";
+import type { ReportInput } from "./ReportDialog";
+import { useCallStats, useCountdown, useMediaState, usePeerState, useRoomState } from "./hooks";
+import { toastOnAckError, type AppSocket } from "@/lib/socket";
+import type {
+  AckResponse,
+  HandshakeAuth,
+  HandshakeErrorCode,
+  IceCandidate,
+  MatchPreferences,
+  SessionDescription,
+} from "@shared/events";
 import { 
   ensureRemoteStream, 
   detachLocalPreview, 
   stopProvidedTracks, 
   teardownPeers,
-  toggleCameraTrack
+  toggleCameraTrack,
+  fetchRtcConfig
 } from "./webrtc-utils";
 
 const URL = process.env.NEXT_PUBLIC_BACKEND_URI || "http://localhost:5001";
+const REPORT_ACK_TIMEOUT_MS = 8000;
+// A disconnected ICE state often heals by itself; restart only if it lasts
+const ICE_DISCONNECTED_GRACE_MS = 3000;
+// How often a restart is retried while the connection stays down
+const ICE_RESTART_RETRY_MS = 8000;
 
 interface RoomProps {
   name: string;
+  preferences?: MatchPreferences;
+  // Signed-in users' Clerk session token; guests have none
+  getAuthToken?: () => Promise<string | null>;
   localAudioTrack: MediaStreamTrack | null;
   localVideoTrack: MediaStreamTrack | null;
   audioOn?: boolean;
@@ -30,6 +49,8 @@ interface RoomProps {
 
 export default function Room({
   name,
+  preferences,
+  getAuthToken,
   localAudioTrack,
   localVideoTrack,
   audioOn,
@@ -47,9 +68,11 @@ export default function Room({
   const { peerMicOn, setPeerMicOn, peerCamOn, setPeerCamOn, peerScreenShareOn, setPeerScreenShareOn } = peerState;
   const { 
     showChat, setShowChat, roomId, setRoomId, mySocketId, setMySocketId,
-    lobby, setLobby, status, setStatus, showTimeoutAlert, setShowTimeoutAlert,
-    timeoutMessage, setTimeoutMessage 
+    lobby, setLobby, status, setStatus, queueStatus, setQueueStatus,
+    showTimeoutAlert, setShowTimeoutAlert, timeoutMessage, setTimeoutMessage,
+    blocked, setBlocked, cooldownUntil, setCooldownUntil, reconnecting, setReconnecting
   } = roomState;
+  const cooldownLeft = useCountdown(cooldownUntil);
 
   // DOM refs
   const localVideoRef = useRef<HTMLVideoElement>(null);
@@ -59,11 +82,20 @@ export default function Room({
   const remoteScreenShareRef = useRef<HTMLVideoElement>(null);
 
   // socket/pc refs
-  const socketRef = useRef<Socket | null>(null);
+  const socketRef = useRef<AppSocket | null>(null);
   const peerIdRef = useRef<string | null>(null);
-  const sendingPcRef = useRef<RTCPeerConnection | null>(null);
-  const receivingPcRef = useRef<RTCPeerConnection | null>(null);
+  const roomIdRef = useRef<string | null>(null);
+  const pcRef = useRef<RTCPeerConnection | null>(null);
+  // Resolves once this call's peer connection exists (null if the call ended first)
+  const pcReadyRef = useRef<Promise<RTCPeerConnection | null> | null>(null);
   const joinedRef = useRef(false);
+  // perfect negotiation state; `polite` is assigned by the server per call
+  const politeRef = useRef(false);
+  const makingOfferRef = useRef(false);
+  const ignoreOfferRef = useRef(false);
+  // session resume: token from the server, and whether a drop interrupted a call
+  const resumeTokenRef = useRef<string | null>(null);
+  const droppedCallRef = useRef(false);
 
   // video and screenshare refs
   const videoSenderRef = useRef<RTCRtpSender | null>(null);
@@ -72,9 +104,21 @@ export default function Room({
   const localScreenShareStreamRef = useRef<MediaStream | null>(null);
   const remoteStreamRef = useRef<MediaStream | null>(null);
   
-  // ICE candidate queues for handling candidates before remote description is set
-  const senderIceCandidatesQueue = useRef<RTCIceCandidate[]>([]);
-  const receiverIceCandidatesQueue = useRef<RTCIceCandidate[]>([]);
+  // ICE candidates that arrive before the remote description is set
+  const pendingCandidatesRef = useRef<IceCandidate[]>([]);
+
+  // ICE restarts: the pending (re)try, and whether the server was told the
+  // call is interrupted
+  const iceRestartTimerRef = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+  const interruptedRef = useRef(false);
+  // the partner dropped off the server and their session resume (a fresh
+  // call:start) rebuilds the connection, so there is nothing to restart
+  const partnerAwayRef = useRef(false);
+  // whether the server was told this call's peer connection came up (it ends
+  // calls that don't in time)
+  const connectedRef = useRef(false);
+
+  const callStats = useCallStats(pcRef, !lobby);
 
   // Helper function for remote stream management
   const ensureRemoteStreamLocal = () => {
@@ -93,7 +137,7 @@ export default function Room({
   };
 
   // Helper function to process queued ICE candidates
-  const processQueuedIceCandidates = async (pc: RTCPeerConnection, queue: RTCIceCandidate[]) => {
+  const processQueuedIceCandidates = async (pc: RTCPeerConnection, queue: IceCandidate[]) => {
     while (queue.length > 0) {
       const candidate = queue.shift();
       if (candidate) {
@@ -107,11 +151,91 @@ export default function Room({
     }
   };
 
+  // Restart ICE after `delayMs` unless the connection came back by then, and
+  // keep retrying until it does; the offer goes out through onnegotiationneeded
+  const scheduleIceRestart = (pc: RTCPeerConnection, rid: string, socket: AppSocket, delayMs: number) => {
+    clearTimeout(iceRestartTimerRef.current);
+    iceRestartTimerRef.current = setTimeout(() => {
+      if (pc !== pcRef.current || pc.iceConnectionState === "connected" || pc.iceConnectionState === "completed") return;
+      // with either side's socket down too, the session resume rebuilds the connection
+      if (socket.connected && !partnerAwayRef.current) {
+        if (!interruptedRef.current) {
+          interruptedRef.current = true;
+          setReconnecting(true);
+          socket.emit("call:interrupted", { roomId: rid });
+        }
+        pc.restartIce();
+      }
+      scheduleIceRestart(pc, rid, socket, ICE_RESTART_RETRY_MS);
+    }, delayMs);
+  };
+
+  const onIceConnectionStateChange = (pc: RTCPeerConnection, rid: string, socket: AppSocket) => {
+    if (pc !== pcRef.current) return;
+    switch (pc.iceConnectionState) {
+      case "connected":
+      case "completed":
+        clearTimeout(iceRestartTimerRef.current);
+        if (!connectedRef.current) {
+          connectedRef.current = true;
+          socket.emit("call:connected", { roomId: rid });
+        }
+        if (interruptedRef.current) {
+          interruptedRef.current = false;
+          setReconnecting(false);
+          socket.emit("call:recovered", { roomId: rid });
+        }
+        break;
+      case "disconnected":
+        scheduleIceRestart(pc, rid, socket, ICE_DISCONNECTED_GRACE_MS);
+        break;
+      case "failed":
+        scheduleIceRestart(pc, rid, socket, 0);
+        break;
+    }
+  };
+
+  // The call's connection is gone (skip, resume, leave): nothing to restart
+  const stopIceRestarts = () => {
+    clearTimeout(iceRestartTimerRef.current);
+    iceRestartTimerRef.current = undefined;
+    interruptedRef.current = false;
+    setReconnecting(false);
+  };
+
   // Helper for common PC setup
-  const setupPeerConnection = async (pc: RTCPeerConnection, isOffer: boolean, rid: string, socket: Socket) => {
+  const setupPeerConnection = async (pc: RTCPeerConnection, rid: string, socket: AppSocket) => {
     videoSenderRef.current = null;
-    
-    if (localAudioTrack && localAudioTrack.readyState === "live" && micOn) {
+
+    pc.onicecandidate = (e) => {
+      if (e.candidate) {
+        socket.emit("add-ice-candidate", { candidate: e.candidate.toJSON(), roomId: rid });
+      }
+    };
+
+    // A network change (Wi-Fi to Ethernet, a VPN toggling) kills the candidate
+    // pair in use; ICE restarts until a new one works
+    pc.oniceconnectionstatechange = () => onIceConnectionStateChange(pc, rid, socket);
+
+    // Either side offers whenever its tracks change or ICE restarts; collisions
+    // are settled in the description handler
+    pc.onnegotiationneeded = async () => {
+      try {
+        makingOfferRef.current = true;
+        await pc.setLocalDescription();
+        if (pc.localDescription) {
+          socket.emit("offer", { roomId: rid, sdp: pc.localDescription.toJSON() }, toastOnAckError("Connection failed"));
+        }
+      } catch {
+        // the peer's offer won, or the call ended
+      } finally {
+        makingOfferRef.current = false;
+      }
+    };
+
+    // Always send the mic track, muted or not (toggleMic flips `enabled`), so
+    // unmuting mid-call needs no renegotiation
+    if (localAudioTrack && localAudioTrack.readyState === "live") {
       pc.addTrack(localAudioTrack);
     }
     
@@ -145,16 +269,6 @@ export default function Room({
       remoteStreamRef.current.addTrack(e.track);
       ensureRemoteStreamLocal();
     };
-
-    pc.onicecandidate = (e) => {
-      if (e.candidate) {
-        socket.emit("add-ice-candidate", { 
-          candidate: e.candidate, 
-          type: isOffer ? "sender" : "receiver", 
-          roomId: rid 
-        });
-      }
-    };
   };
 
   // ===== EVENT HANDLERS =====
@@ -196,10 +310,7 @@ export default function Room({
       currentVideoTrackRef,
       localVideoRef,
       videoSenderRef,
-      sendingPcRef,
-      receivingPcRef,
-      roomId,
-      socketRef,
+      pcRef,
       localVideoTrack
     );
   };
@@ -229,17 +340,18 @@ export default function Room({
 
           if (videoSenderRef.current) {
             await videoSenderRef.current.replaceTrack(screenTrack);
+          } else if (pcRef.current) {
+            // the call started without video; the connection renegotiates itself
+            videoSenderRef.current = pcRef.current.addTrack(screenTrack);
+          }
+          if (videoSenderRef.current) {
             toast.success("Screen Share Started", {
               description: "You are now sharing your screen"
             });
           }
 
           if (socket && roomId) {
-            socket.emit("media-state-change", {
-              isScreenSharing: true,
-              micOn,
-              camOn: false
-            });
+            socket.emit("screen:state", { roomId, on: true });
           }
 
           screenTrack.onended = async () => {
@@ -274,11 +386,7 @@ export default function Room({
             });
 
             if (socket && roomId) {
-              socket.emit("media-state-change", {
-                isScreenSharing: false,
-                micOn,
-                camOn
-              });
+              socket.emit("screen:state", { roomId, on: false });
             }
           };
 
@@ -332,11 +440,7 @@ export default function Room({
         }
 
         if (socket && roomId) {
-          socket.emit("media-state-change", {
-            isScreenSharing: false,
-            micOn,
-            camOn
-          });
+          socket.emit("screen:state", { roomId, on: false });
         }
 
         currentScreenShareTrackRef.current = null;
@@ -352,8 +456,14 @@ export default function Room({
 
   const handleNext = () => {
     const s = socketRef.current;
-    if (!s) return;
+    if (!s || cooldownLeft > 0) return;
+
+    s.emit("queue:next");
+    resetForNextMatch();
+  };
 
+  // Drop the current peer locally and go back to searching
+  const resetForNextMatch = () => {
     const actualCamState = !!(currentVideoTrackRef.current && currentVideoTrackRef.current.readyState === "live" && camOn);
     const actualMicState = !!(localAudioTrack && localAudioTrack.readyState === "live" && micOn);
 
@@ -363,7 +473,6 @@ export default function Room({
     if (remoteVideoRef.current) remoteVideoRef.current.srcObject = null;
     if (remoteAudioRef.current) remoteAudioRef.current.srcObject = null;
 
-    s.emit("queue:next");
     handleNextConnection(actualCamState, actualMicState, "next");
   };
 
@@ -387,10 +496,10 @@ export default function Room({
       }
     }
 
+    stopIceRestarts();
     teardownPeers(
       "teardown",
-      sendingPcRef,
-      receivingPcRef,
+      pcRef,
       remoteStreamRef,
       remoteVideoRef,
       remoteAudioRef,
@@ -434,32 +543,94 @@ export default function Room({
     setStatus("Rechecking…");
   };
 
-  const handleReport = (reason?: string) => {
+  const handleReport = ({ category, reason, block }: ReportInput) => {
     const s = socketRef.current;
     const reporter = mySocketId || s?.id || null;
-    const reported = peerIdRef.current || null;
+    if (!s || !reporter) {
+      toast.error("Report failed", { description: "Could not submit report (no socket)." });
+      return Promise.resolve(false);
+    }
+
+    const payload = { reporterId: reporter, reportedId: peerIdRef.current || null, roomId, category, reason, block };
+    return new Promise<boolean>((resolve) => {
+      let settled = false;
+      const timer = setTimeout(() => {
+        settled = true;
+        toast.error("Report failed", { description: "The server did not respond. Please try again." });
+        resolve(false);
+      }, REPORT_ACK_TIMEOUT_MS);
+
+      s.emit("report", payload, (res: AckResponse) => {
+        if (settled) return;
+        settled = true;
+        clearTimeout(timer);
+        if (!res.ok) {
+          toast.error("Report failed", { description: res.error.message });
+          return resolve(false);
+        }
+
+        toast.success("Report submitted", {
+          description: block
+            ? "Thank you. We received your report and you won't be matched with this person again."
+            : "Thank you. We received your report.",
+        });
+        // The server already ended the call and requeued us; only reset locally,
+        // and only if a new match has not arrived in the meantime
+        if (block && !lobby && payload.roomId && roomIdRef.current === payload.roomId) resetForNextMatch();
+        resolve(true);
+      });
+    });
+  };
+
+  // Ends the call like a skip, and the server never matches us again
+  const handleBlock = async () => {
+    const s = socketRef.current;
+    const blockedRoom = roomIdRef.current;
+    if (!s || !blockedRoom) {
+      toast.error("Nobody to block", { description: "You can block someone during or right after a call." });
+      return;
+    }
+
     try {
-      if (s && reporter) {
-        s.emit("report", { reporterId: reporter, reportedId: reported, roomId, reason });
-        toast.success("Report submitted", { description: "Thank you. We received your report." });
-      } else {
-        toast.error("Report failed", { description: "Could not submit report (no socket)." });
+      const res = await s.timeout(REPORT_ACK_TIMEOUT_MS).emitWithAck("block", { roomId: blockedRoom });
+      if (!res.ok) {
+        toast.error("Block failed", { description: res.error.message });
+        return;
       }
-    } catch (e) {
-      console.error("report emit error", e);
-      try { toast.error("Report failed", { description: "An error occurred." }); } catch {}
+    } catch {
+      toast.error("Block failed", { description: "The server did not respond. Please try again." });
+      return;
+    }
+
+    toast.success("User blocked", { description: "You won't be matched with this person again." });
+    if (!lobby && roomIdRef.current === blockedRoom) resetForNextMatch();
+  };
+
+  const handleUnblock = async (id: string) => {
+    const s = socketRef.current;
+    if (!s) return false;
+    try {
+      const res = await s.timeout(REPORT_ACK_TIMEOUT_MS).emitWithAck("unblock", { id });
+      if (!res.ok) {
+        toast.error("Unblock failed", { description: res.error.message });
+        return false;
+      }
+      return true;
+    } catch {
+      toast.error("Unblock failed", { description: "The server did not respond. Please try again." });
+      return false;
     }
   };
 
   function handleNextConnection(currentCamState: boolean, currentMicState: boolean, reason: "next" | "partner-left" = "next") {
-    // Clear ICE candidate queues
-    senderIceCandidatesQueue.current = [];
-    receiverIceCandidatesQueue.current = [];
+    // Clear queued ICE candidates
+    pendingCandidatesRef.current = [];
+    pcReadyRef.current = null;
+    stopIceRestarts();
     
     teardownPeers(
       reason,
-      sendingPcRef,
-      receivingPcRef,
+      pcRef,
       remoteStreamRef,
       remoteVideoRef,
       remoteAudioRef,
@@ -503,6 +674,36 @@ export default function Room({
     }
   }
 
+  // The server kept (or restored) our call after a reconnect: drop the dead
+  // peer connection and wait for its fresh call:start, keeping the call UI
+  function handleResumeConnection() {
+    pendingCandidatesRef.current = [];
+    pcReadyRef.current = null;
+    stopIceRestarts();
+
+    teardownPeers(
+      "resume",
+      pcRef,
+      remoteStreamRef,
+      remoteVideoRef,
+      remoteAudioRef,
+      videoSenderRef,
+      localScreenShareStreamRef,
+      currentScreenShareTrackRef,
+      localScreenShareRef,
+      {
+        setShowChat: () => {},
+        setPeerMicOn,
+        setPeerCamOn,
+        setScreenShareOn,
+        setPeerScreenShareOn,
+        setLobby: () => {},
+        setStatus: () => {}
+      }
+    );
+    setStatus("Reconnecting…");
+  }
+
   // ===== EFFECTS =====
   useEffect(() => {
     if (localVideoTrack) {
@@ -510,6 +711,12 @@ export default function Room({
     }
   }, [localVideoTrack]);
 
+  // The server requeues us when a skip cooldown ends
+  useEffect(() => {
+    if (!cooldownUntil || cooldownLeft > 0) return;
+    setCooldownUntil(null);
+    if (lobby) setStatus("Searching for the best match…");
+  }, [cooldownUntil, cooldownLeft, lobby, setCooldownUntil, setStatus]);
 
 
   useEffect(() => {
@@ -547,12 +754,20 @@ export default function Room({
   useEffect(() => {
     if (socketRef.current) return;
 
-    const s = io(URL, {
+    const s: AppSocket = io(URL, {
       transports: ["websocket"],
       autoConnect: false,
       reconnection: true,
       reconnectionAttempts: 5,
-      auth: { name },
+      // evaluated on every (re)connect, so a reconnect carries the latest token
+      auth: (cb) => {
+        const auth: HandshakeAuth = { name, ...preferences, resumeToken: resumeTokenRef.current ?? undefined };
+        if (!getAuthToken) return cb(auth);
+        // session tokens are short-lived, so fetch a fresh one each time
+        getAuthToken()
+          .then((token) => cb({ ...auth, token: token ?? undefined }))
+          .catch(() => cb(auth));
+      },
     });
 
     socketRef.current = s;
@@ -565,40 +780,84 @@ export default function Room({
       }
     });
 
-    // ----- CALLER -----
-    s.on("send-offer", async ({ roomId: rid }) => {
-      setRoomId(rid);
-      setLobby(false);
-      setStatus("Connecting…");
-      
-      // Add a small delay to ensure any previous toasts are displayed
-      setTimeout(() => {
-        toast.success("Connected!", {
-          id: "connected-toast-" + rid, // Unique ID per room
-          description: "You've been connected to someone"
+    s.on("connect_error", (err) => {
+      const code = err.message as HandshakeErrorCode;
+      if (code === "RATE_LIMITED") {
+        toast.error("Too many requests", { description: "Please wait a minute before joining again" });
+        handleLeave();
+        return;
+      }
+      if (code !== "UNAUTHORIZED" && code !== "AUTH_REQUIRED") return;
+      toast.error(code === "AUTH_REQUIRED" ? "Sign in required" : "Sign-in expired", {
+        description: code === "AUTH_REQUIRED"
+          ? "Sign in to start matching"
+          : "Please sign in again to continue",
+      });
+      handleLeave();
+    });
+
+    s.on("rate:limited", ({ retryAfterMs, disconnected }) => {
+      if (disconnected) {
+        // reconnecting is refused for a while anyway
+        toast.error("Disconnected", {
+          description: `Too many requests. You can rejoin in ${Math.ceil(retryAfterMs / 1000)} seconds.`,
         });
-        // Emit chat join after a small delay to ensure listeners are attached
-        setTimeout(() => {
-          s.emit("chat:join", { roomId: rid, name });
-        }, 100);
-      }, 100);
+        handleLeave();
+        return;
+      }
+      toast.warning("Slow down", {
+        id: "rate-limited-toast",
+        description: "Some of your actions were ignored. Try again in a moment.",
+      });
+    });
 
-      const pc = new RTCPeerConnection();
-      sendingPcRef.current = pc;
-      peerIdRef.current = rid;
-      
-      await setupPeerConnection(pc, true, rid, s);
+    s.on("blocks", ({ blocked }) => {
+      setBlocked(blocked);
+    });
+
+    s.on("session", ({ resumeToken }) => {
+      resumeTokenRef.current = resumeToken;
+    });
+
+    s.on("disconnect", (reason) => {
+      if (reason === "io client disconnect") return;
+      droppedCallRef.current = !!pcRef.current;
+      if (droppedCallRef.current) {
+        toast.loading("Connection lost", { id: "reconnect-toast", description: "Reconnecting to your call…" });
+      }
+    });
+
+    s.on("session:resumed", ({ roomId: rid, peerId }) => {
+      droppedCallRef.current = false;
+      roomIdRef.current = rid;
+      peerIdRef.current = peerId;
+      setRoomId(rid);
+      handleResumeConnection();
+      toast.success("Reconnected", { id: "reconnect-toast", description: "You're back in your call" });
+    });
+
+    s.on("partner:reconnecting", () => {
+      partnerAwayRef.current = true;
+      toast.warning("Partner connection lost", {
+        id: "partner-reconnecting-toast",
+        description: "Waiting for them to reconnect…"
+      });
+    });
 
-      const offer = await pc.createOffer({ offerToReceiveAudio: true, offerToReceiveVideo: true });
-      await pc.setLocalDescription(offer);
-      s.emit("offer", { sdp: offer, roomId: rid });
+    s.on("partner:resumed", ({ peerId }) => {
+      peerIdRef.current = peerId;
+      handleResumeConnection();
+      toast.success("Partner reconnected", { id: "partner-reconnecting-toast" });
     });
 
-    // ----- ANSWERER -----
-    s.on("offer", async ({ roomId: rid, sdp: remoteSdp }) => {
+    // ----- CALL SETUP -----
+    // One peer connection per call, negotiated from either side; the server
+    // makes exactly one of the two users polite
+    s.on("call:start", ({ roomId: rid, peerId, polite }) => {
       setRoomId(rid);
       setLobby(false);
       setStatus("Connecting…");
+      setQueueStatus(null);
       
       // Add a small delay to ensure any previous toasts are displayed
       setTimeout(() => {
@@ -612,76 +871,88 @@ export default function Room({
         }, 100);
       }, 100);
 
-      const pc = new RTCPeerConnection();
-      receivingPcRef.current = pc;
-      peerIdRef.current = rid;
-      
-      await setupPeerConnection(pc, false, rid, s);
-      await pc.setRemoteDescription(new RTCSessionDescription(remoteSdp));
-      await processQueuedIceCandidates(pc, receiverIceCandidatesQueue.current);
-
-      const answer = await pc.createAnswer();
-      await pc.setLocalDescription(answer);
-      s.emit("answer", { roomId: rid, sdp: answer });
+      peerIdRef.current = peerId;
+      roomIdRef.current = rid;
+      politeRef.current = polite;
+      makingOfferRef.current = false;
+      ignoreOfferRef.current = false;
+      connectedRef.current = false;
+      partnerAwayRef.current = false;
+      pendingCandidatesRef.current = [];
+
+      // signaling that arrives while the ICE servers are fetched waits for this
+      let ready: Promise<RTCPeerConnection | null> | null = null;
+      ready = (async () => {
+        const config = await fetchRtcConfig(s);
+        if (pcReadyRef.current !== ready) return null; // the call ended meanwhile
+        const pc = new RTCPeerConnection(config);
+        pcRef.current = pc;
+        await setupPeerConnection(pc, rid, s);
+        return pc;
+      })();
+      pcReadyRef.current = ready;
     });
 
-    // caller receives answer
-    s.on("answer", async ({ sdp: remoteSdp }) => {
-      const pc = sendingPcRef.current;
-      if (!pc) return;
-      await pc.setRemoteDescription(new RTCSessionDescription(remoteSdp));
-      
-      // Process any queued ICE candidates now that remote description is set
-      await processQueuedIceCandidates(pc, senderIceCandidatesQueue.current);
-    });
+    // The peer connection of the current call, once it exists
+    const currentPc = async () => {
+      const pc = await pcReadyRef.current;
+      return pc && pc === pcRef.current ? pc : null;
+    };
 
-    // trickle ICE
-    s.on("add-ice-candidate", async ({ candidate, type }) => {
+    // Perfect negotiation: when offers collide, the impolite side ignores the
+    // peer's, the polite side rolls its own back and answers
+    const onDescription = async (description: SessionDescription) => {
+      const pc = await currentPc();
+      const rid = roomIdRef.current;
+      if (!pc || !rid) return;
       try {
-        const ice = new RTCIceCandidate(candidate);
-        
-        if (type === "sender") {
-          const pc = receivingPcRef.current;
-          if (pc && pc.remoteDescription) {
-            await pc.addIceCandidate(ice);
-          } else {
-            // Queue the candidate until remote description is set
-            receiverIceCandidatesQueue.current.push(ice);
-          }
-        } else {
-          const pc = sendingPcRef.current;
-          if (pc && pc.remoteDescription) {
-            await pc.addIceCandidate(ice);
-          } else {
-            // Queue the candidate until remote description is set
-            senderIceCandidatesQueue.current.push(ice);
+        const collision = description.type === "offer" && (makingOfferRef.current || pc.signalingState !== "stable");
+        ignoreOfferRef.current = !politeRef.current && collision;
+        if (ignoreOfferRef.current) return;
+
+        await pc.setRemoteDescription(description);
+        await processQueuedIceCandidates(pc, pendingCandidatesRef.current);
+        if (description.type === "offer") {
+          await pc.setLocalDescription();
+          if (pc.localDescription) {
+            s.emit("answer", { roomId: rid, sdp: pc.localDescription.toJSON() }, toastOnAckError("Connection failed"));
           }
         }
       } catch (e) {
-        // console.error("addIceCandidate error", e);
+        // console.error("negotiation error", e);
       }
-    });
+    };
 
-    // Renegotiation handlers
-    s.on("renegotiate-offer", async ({ sdp, role }) => {
-      const pc = receivingPcRef.current;
-      if (pc) {
-        await pc.setRemoteDescription(new RTCSessionDescription(sdp));
-        const answer = await pc.createAnswer();
-        await pc.setLocalDescription(answer);
-        s.emit("renegotiate-answer", { roomId, sdp: answer, role: "answerer" });
-      }
-    });
+    s.on("offer", ({ sdp }) => onDescription(sdp));
+    s.on("answer", ({ sdp }) => onDescription(sdp));
 
-    s.on("renegotiate-answer", async ({ sdp, role }) => {
-      const pc = sendingPcRef.current;
-      if (pc) {
-        await pc.setRemoteDescription(new RTCSessionDescription(sdp));
+    // trickle ICE
+    s.on("add-ice-candidate", async ({ candidate }) => {
+      const pc = await currentPc();
+      if (!pc) return;
+      if (!pc.remoteDescription) {
+        // Queue the candidate until remote description is set
+        pendingCandidatesRef.current.push(candidate);
+        return;
+      }
+      try {
+        await pc.addIceCandidate(candidate);
+      } catch (e) {
+        // candidates of an offer we ignored are expected to fail
+        // if (!ignoreOfferRef.current) console.error("addIceCandidate error", e);
       }
     });
 
     // Simplified event handlers - full WebRTC logic would go here
     s.on("lobby", () => {
+      // reconnected too late to resume: that call is over
+      if (droppedCallRef.current) {
+        droppedCallRef.current = false;
+        toast.error("Call ended", { id: "reconnect-toast", description: "Could not reconnect in time" });
+        const actualCamState = !!(currentVideoTrackRef.current && currentVideoTrackRef.current.readyState === "live" && camOn);
+        const actualMicState = !!(localAudioTrack && localAudioTrack.readyState === "live" && micOn);
+        handleNextConnection(actualCamState, actualMicState, "next");
+      }
       setLobby(true);
       setStatus("Waiting to connect you to someone…");
     });
@@ -691,40 +962,84 @@ export default function Room({
       setStatus("Searching for the best match…");
     });
 
-    s.on("queue:timeout", ({ message }: { message: string }) => {
+    s.on("queue:status", (payload) => {
+      setQueueStatus(payload);
+    });
+
+    s.on("queue:cooldown", ({ remainingMs }) => {
+      setCooldownUntil(Date.now() + remainingMs);
+      setQueueStatus(null);
+      setLobby(true);
+      setStatus("Taking a short break before your next match…");
+      toast.warning("You're skipping very fast", {
+        id: "skip-cooldown-toast",
+        description: `Give people a few seconds. You'll be matched again in ${Math.ceil(remainingMs / 1000)}s.`,
+      });
+    });
+
+    s.on("queue:timeout", ({ message }) => {
+      setQueueStatus(null);
       setTimeoutMessage(message);
       setShowTimeoutAlert(true);
       setLobby(true);
       setStatus("No match found. Try again?");
     });
 
-    s.on("partner:left", () => {
-      toast.warning("Partner Left", {
-        id: "partner-left-toast-" + Date.now(), // Unique ID to prevent duplicates
-        description: "Your partner has left the call"
-      });
+    s.on("partner:left", ({ reason }) => {
+      if (reason === "connection-failed" || reason === "setup-failed") {
+        toast.error(reason === "setup-failed" ? "Couldn't connect" : "Call dropped", {
+          id: "call-dropped-toast",
+          description: reason === "setup-failed"
+            ? "The call could not be set up. Finding you someone new…"
+            : "The connection could not be restored. Finding you someone new…"
+        });
+      } else {
+        toast.warning("Partner Left", {
+          id: "partner-left-toast-" + Date.now(), // Unique ID to prevent duplicates
+          description: "Your partner has left the call"
+        });
+      }
       const actualCamState = !!(currentVideoTrackRef.current && currentVideoTrackRef.current.readyState === "live" && camOn);
       const actualMicState = !!(localAudioTrack && localAudioTrack.readyState === "live" && micOn);
       handleNextConnection(actualCamState, actualMicState, "partner-left");
     });
 
-    s.on("peer:media-state", ({ state }: { state: { micOn?: boolean; camOn?: boolean } }) => {
+    s.on("banned", ({ reason, expiresAt }) => {
+      toast.error("You have been banned", {
+        id: "banned-toast",
+        description: [
+          reason,
+          expiresAt ? `Until ${new Date(expiresAt).toLocaleString()}` : "This ban does not expire",
+        ]
+          .filter(Boolean)
+          .join(" · "),
+        duration: 10000,
+      });
+      handleLeave();
+    });
+
+    s.on("peer:media-state", ({ state }) => {
       if (typeof state?.micOn === "boolean") setPeerMicOn(state.micOn);
       if (typeof state?.camOn === "boolean") setPeerCamOn(state.camOn);
     });
 
-    s.on("peer-media-state-change", ({ isScreenSharing, micOn: peerMic, camOn: peerCam, from, userId }) => {
-      if (typeof isScreenSharing === "boolean") {
-        setPeerScreenShareOn(isScreenSharing);
-      }
-      if (typeof peerMic === "boolean") {
-        setPeerMicOn(peerMic);
-      }
-      if (typeof peerCam === "boolean") {
-        setPeerCamOn(peerCam);
+    s.on("screen:state", ({ on }) => {
+      if (typeof on === "boolean") {
+        setPeerScreenShareOn(on);
       }
     });
 
+    // Back online after a drop: restart right away instead of at the next retry
+    const onOnline = () => {
+      const pc = pcRef.current;
+      const rid = roomIdRef.current;
+      if (!pc || !rid) return;
+      if (pc.iceConnectionState === "disconnected" || pc.iceConnectionState === "failed") {
+        scheduleIceRestart(pc, rid, s, 0);
+      }
+    };
+    window.addEventListener("online", onOnline);
+
     const onBeforeUnload = () => {
       try {
         s.emit("queue:leave");
@@ -736,6 +1051,8 @@ export default function Room({
 
     return () => {
       window.removeEventListener("beforeunload", onBeforeUnload);
+      window.removeEventListener("online", onOnline);
+      clearTimeout(iceRestartTimerRef.current);
       s.disconnect();
       socketRef.current = null;
       detachLocalPreview(localVideoRef);
@@ -759,6 +1076,9 @@ export default function Room({
             showChat={showChat}
             lobby={lobby}
             status={status}
+            queueStatus={queueStatus}
+            reconnecting={reconnecting}
+            stats={callStats}
             name={name}
             mediaState={mediaState}
             peerState={peerState}
@@ -797,7 +1117,11 @@ export default function Room({
         onRecheck={handleRecheck}
         onNext={handleNext}
         onLeave={handleLeave}
-        onReport={() => handleReport()}
+        onReport={handleReport}
+        blocked={blocked}
+        onBlock={handleBlock}
+        onUnblock={handleUnblock}
+        cooldownLeft={cooldownLeft}
       />
 
       <TimeoutAlert
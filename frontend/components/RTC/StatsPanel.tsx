@@ -0,0 +1,152 @@
+"use client";
+
+import { useState } from "react";
+import { IconChartBar, IconX } from "@tabler/icons-react";
+import type { CallStats, CandidateType, Quality, StreamStats } from "./call-stats";
+
+const QUALITY_LABELS: Record<Quality, string> = { 1: "Poor", 2: "Fair", 3: "Good", 4: "Excellent" };
+const QUALITY_COLORS: Record<Quality, string> = {
+  1: "bg-red-500",
+  2: "bg-orange-400",
+  3: "bg-yellow-300",
+  4: "bg-green-400",
+};
+
+const CANDIDATE_LABELS: Record<CandidateType, string> = {
+  host: "direct (host)",
+  srflx: "through NAT (srflx)",
+  prflx: "through NAT (prflx)",
+  relay: "relayed (TURN)",
+};
+
+interface SignalBarsProps {
+  quality: Quality | null;
+  // whose connection this is, for screen readers
+  label: string;
+}
+
+// Four bars, lit up to the connection's quality; dimmed while unknown
+export function SignalBars({ quality, label }: SignalBarsProps) {
+  const title = `${label}: ${quality ? QUALITY_LABELS[quality] : "measuring…"}`;
+  return (
+    <span className="inline-flex h-3 items-end gap-px" role="img" aria-label={title} title={title}>
+      {[1, 2, 3, 4].map((bar) => (
+        <span
+          key={bar}
+          className={`w-[3px] rounded-sm ${quality && bar <= quality ? QUALITY_COLORS[quality] : "bg-white/25"}`}
+          style={{ height: `${bar * 25}%` }}
+        />
+      ))}
+    </span>
+  );
+}
+
+const dash = "—";
+
+function formatResolution({ width, height, fps }: StreamStats) {
+  if (!width || !height) return dash;
+  return fps ? `${width}×${height} @ ${Math.round(fps)} fps` : `${width}×${height}`;
+}
+
+function formatBitrate(kbps: number | null) {
+  if (kbps === null) return dash;
+  return kbps >= 1000 ? `${(kbps / 1000).toFixed(1)} Mbps` : `${kbps} kbps`;
+}
+
+function formatLoss(pct: number | null) {
+  return pct === null ? dash : `${pct.toFixed(1)}%`;
+}
+
+function formatMs(value: number | null) {
+  return value === null ? dash : `${value} ms`;
+}
+
+// How media travels: through a relay if either end uses one, otherwise
+// through NAT if either end is behind one, otherwise directly
+function routeOf(local: CandidateType | null, remote: CandidateType | null): CandidateType | null {
+  if (local === "relay" || remote === "relay") return "relay";
+  if (local && local !== "host") return local;
+  return remote && remote !== "host" ? remote : local ?? remote;
+}
+
+function Row({ label, value }: { label: string; value: string }) {
+  return (
+    <>
+      <dt className="text-white/50">{label}</dt>
+      <dd className="text-right tabular-nums">{value}</dd>
+    </>
+  );
+}
+
+function StreamSection({ title, stream }: { title: string; stream: StreamStats }) {
+  return (
+    <div>
+      <div className="mb-1 flex items-center justify-between font-medium">
+        <span>{title}</span>
+        <SignalBars quality={stream.quality} label={title} />
+      </div>
+      <dl className="grid grid-cols-2 gap-x-3 gap-y-0.5">
+        <Row label="Bitrate" value={formatBitrate(stream.bitrateKbps)} />
+        <Row label="Video" value={formatResolution(stream)} />
+        <Row label="Packet loss" value={formatLoss(stream.packetLossPct)} />
+        <Row label="Jitter" value={formatMs(stream.jitterMs)} />
+      </dl>
+    </div>
+  );
+}
+
+interface StatsPanelProps {
+  stats: CallStats | null;
+}
+
+// A toggle on the peer's tile that expands into the call's live statistics
+export default function StatsPanel({ stats }: StatsPanelProps) {
+  const [open, setOpen] = useState(false);
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className="cursor-pointer rounded-md bg-black/60 p-1.5 text-white/80 hover:bg-black/80 hover:text-white transition-colors"
+        aria-label="Show call statistics"
+        title="Call statistics"
+      >
+        <IconChartBar className="h-4 w-4" />
+      </button>
+    );
+  }
+
+  const route = stats ? routeOf(stats.localCandidate, stats.remoteCandidate) : null;
+
+  return (
+    <div className="w-64 space-y-3 rounded-xl border border-white/10 bg-black/80 p-3 text-xs text-white backdrop-blur">
+      <div className="flex items-center justify-between">
+        <span className="font-semibold">Call statistics</span>
+        <button
+          onClick={() => setOpen(false)}
+          className="cursor-pointer rounded p-0.5 text-white/60 hover:bg-white/10 hover:text-white"
+          aria-label="Hide call statistics"
+        >
+          <IconX className="h-3.5 w-3.5" />
+        </button>
+      </div>
+
+      {!stats ? (
+        <p className="text-white/50">Measuring…</p>
+      ) : (
+        <>
+          <dl className="grid grid-cols-2 gap-x-3 gap-y-0.5">
+            <Row label="Round trip" value={formatMs(stats.rttMs)} />
+            <Row
+              label="Route"
+              value={route ? `${CANDIDATE_LABELS[route]}${stats.protocol ? ` · ${stats.protocol}` : ""}` : dash}
+            />
+            <Row label="Candidates" value={`${stats.localCandidate ?? "?"} → ${stats.remoteCandidate ?? "?"}`} />
+          </dl>
+          <StreamSection title="Sending" stream={stats.outbound} />
+          <StreamSection title="Receiving" stream={stats.inbound} />
+        </>
+      )}
+    </div>
+  );
+}
@@ -6,6 +6,9 @@ import {
   IconMicrophoneOff, 
   IconScreenShare 
 } from "@tabler/icons-react";
+import type { QueueStatusPayload } from "@shared/events";
+import StatsPanel, { SignalBars } from "./StatsPanel";
+import type { CallStats } from "./call-stats";
 
 interface MediaState {
   micOn: boolean;
@@ -27,6 +30,11 @@ interface VideoGridProps {
   showChat: boolean;
   lobby: boolean;
   status: string;
+  queueStatus?: QueueStatusPayload | null;
+  // the call's media connection dropped and is being restored
+  reconnecting?: boolean;
+  // live quality of the call, see useCallStats
+  stats?: CallStats | null;
   name: string;
   mediaState: MediaState;
   peerState: PeerState;
@@ -40,6 +48,9 @@ export default function VideoGrid({
   showChat, 
   lobby, 
   status, 
+  queueStatus,
+  reconnecting,
+  stats = null,
   name, 
   mediaState, 
   peerState 
@@ -66,8 +77,9 @@ export default function VideoGrid({
                 <IconUser className="h-8 w-8 text-white/70" />
               </div>
             )}
-            <div className="absolute bottom-2 left-2 rounded-md bg-black/60 px-2 py-1 text-xs">
+            <div className="absolute bottom-2 left-2 flex items-center gap-1.5 rounded-md bg-black/60 px-2 py-1 text-xs">
               <span>{name || "You"}</span>
+              <SignalBars quality={stats?.outbound.quality ?? null} label="Your connection" />
             </div>
           </div>
 
@@ -84,11 +96,13 @@ export default function VideoGrid({
                 <IconUser className="h-8 w-8 text-white/70" />
               </div>
             )}
-            <div className="absolute bottom-2 left-2 rounded-md bg-black/60 px-2 py-1 text-xs">
+            {reconnecting && <ReconnectingOverlay />}
+            <div className="absolute bottom-2 left-2 flex items-center gap-1.5 rounded-md bg-black/60 px-2 py-1 text-xs">
               <span>Peer</span>
               {!peerMicOn && (
-                <IconMicrophoneOff className="h-3 w-3 ml-1 inline" />
+                <IconMicrophoneOff className="h-3 w-3 inline" />
               )}
+              <SignalBars quality={stats?.inbound.quality ?? null} label="Peer's connection" />
             </div>
           </div>
         </div>
@@ -118,6 +132,9 @@ export default function VideoGrid({
               {screenShareOn ? "Your Screen Share" : "Peer's Screen Share"}
             </span>
           </div>
+          <div className="absolute top-4 right-4">
+            <StatsPanel stats={stats} />
+          </div>
         </div>
       </div>
     );
@@ -151,6 +168,7 @@ export default function VideoGrid({
             <div className="absolute inset-0 flex flex-col items-center justify-center gap-3 bg-black">
               <IconLoader2 className="h-10 w-10 animate-spin text-white/70" />
               <span className="text-sm text-white/70">{status}</span>
+              {queueStatus && <QueueStatusInfo {...queueStatus} />}
             </div>
           )}
           
@@ -159,10 +177,19 @@ export default function VideoGrid({
               <IconUser className="h-12 w-12 text-white/70" />
             </div>
           )}
+
+          {reconnecting && !lobby && <ReconnectingOverlay />}
+
+          {!lobby && (
+            <div className="absolute top-3 right-3">
+              <StatsPanel stats={stats} />
+            </div>
+          )}
           
           {/* Remote label with indicators */}
           <div className="absolute bottom-3 left-3 flex items-center gap-2 rounded-md bg-black/60 px-2 py-1 text-xs">
             <span>{lobby ? "—" : "Peer"}</span>
+            {!lobby && <SignalBars quality={stats?.inbound.quality ?? null} label="Peer's connection" />}
             {!lobby && !peerMicOn && (
               <span className="ml-1 inline-flex items-center gap-1 rounded bg-red-600/80 px-1.5 py-0.5">
                 <IconMicrophoneOff className="h-3 w-3" />
@@ -205,6 +232,7 @@ export default function VideoGrid({
           {/* Local label with indicators */}
           <div className="absolute bottom-3 left-3 flex items-center gap-2 rounded-md bg-black/60 px-2 py-1 text-xs">
             <span>{name || "You"}</span>
+            {!lobby && <SignalBars quality={stats?.outbound.quality ?? null} label="Your connection" />}
             {screenShareOn && (
               <span className="ml-1 inline-flex items-center gap-1 rounded bg-blue-600/80 px-1.5 py-0.5">
                 <IconScreenShare className="h-3 w-3" />
@@ -218,4 +246,33 @@ export default function VideoGrid({
   );
 }
 
-export type { MediaState, PeerState };
\ No newline at end of file
+export type { MediaState, PeerState };
+// Over the peer's tile, which shows their last frame underneath
+function ReconnectingOverlay() {
+  return (
+    <div className="absolute inset-0 flex flex-col items-center justify-center gap-2 bg-black/70">
+      <IconLoader2 className="h-8 w-8 animate-spin text-white/70" />
+      <span className="text-sm text-white/70">Reconnecting…</span>
+    </div>
+  );
+}
+
+function formatWait(ms: number) {
+  const seconds = Math.round(ms / 1000);
+  if (seconds < 60) return `~${Math.max(seconds, 5)}s`;
+  return `~${Math.round(seconds / 60)} min`;
+}
+
+function QueueStatusInfo({ position, waiting, compatible, etaMs }: QueueStatusPayload) {
+  return (
+    <div className="flex flex-col items-center gap-1 text-xs text-white/50">
+      <span>
+        #{position} of {waiting} in line · {compatible} matching your preferences
+        {etaMs !== null && <> · {formatWait(etaMs)} wait</>}
+      </span>
+      {compatible === 0 && (
+        <span>No exact match is waiting yet; your search widens the longer you wait.</span>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+// Call quality from RTCPeerConnection.getStats(), read once per poll. Rates
+// and loss are over the interval since the previous poll, so each reading
+// carries the counters the next one needs.
+
+export type CandidateType = "host" | "srflx" | "prflx" | "relay";
+
+// 1 (poor) to 4 (good) signal bars
+export type Quality = 1 | 2 | 3 | 4;
+
+// One direction of the call's media: what we send, or what the peer sends us
+export interface StreamStats {
+  bitrateKbps: number | null;
+  width: number | null;
+  height: number | null;
+  fps: number | null;
+  // sending: as reported back by the peer
+  packetLossPct: number | null;
+  jitterMs: number | null;
+  quality: Quality | null;
+}
+
+export interface CallStats {
+  rttMs: number | null;
+  // of the candidate pair in use, e.g. `relay` when the call goes through TURN
+  localCandidate: CandidateType | null;
+  remoteCandidate: CandidateType | null;
+  protocol: string | null;
+  outbound: StreamStats;
+  inbound: StreamStats;
+}
+
+// Cumulative counters of the previous poll
+export interface StatsCounters {
+  at: number;
+  bytesSent: number;
+  bytesReceived: number;
+  packetsReceived: number;
+  packetsLost: number;
+}
+
+// Thresholds per bar count, best first: a stream gets the most bars all of
+// its known metrics stay under
+const QUALITY_LEVELS: { bars: Quality; rttMs: number; lossPct: number; jitterMs: number }[] = [
+  { bars: 4, rttMs: 150, lossPct: 1, jitterMs: 30 },
+  { bars: 3, rttMs: 250, lossPct: 3, jitterMs: 50 },
+  { bars: 2, rttMs: 400, lossPct: 8, jitterMs: 100 },
+];
+
+function qualityOf(rttMs: number | null, lossPct: number | null, jitterMs: number | null): Quality | null {
+  if (rttMs === null && lossPct === null && jitterMs === null) return null;
+  const level = QUALITY_LEVELS.find(
+    (l) => (rttMs ?? 0) < l.rttMs && (lossPct ?? 0) < l.lossPct && (jitterMs ?? 0) < l.jitterMs
+  );
+  return level ? level.bars : 1;
+}
+
+// Stats lib.dom does not describe (yet)
+interface RemoteInboundRtpStats extends RTCReceivedRtpStreamStats {
+  roundTripTime?: number;
+  fractionLost?: number;
+}
+
+interface IceCandidateStats extends RTCStats {
+  candidateType?: CandidateType;
+  protocol?: string;
+}
+
+// Firefox flags the pair in use instead of naming it on the transport
+interface CandidatePairStats extends RTCIceCandidatePairStats {
+  selected?: boolean;
+}
+
+const ms = (seconds: number | undefined) => (typeof seconds === "number" ? Math.round(seconds * 1000) : null);
+const num = (v: number | undefined) => v ?? null;
+
+// Video when there is any, audio otherwise
+function pick<T extends RTCRtpStreamStats>(entries: T[]) {
+  return entries.find((s) => s.kind === "video") ?? entries.find((s) => s.kind === "audio") ?? null;
+}
+
+export function readCallStats(report: RTCStatsReport, prev: StatsCounters | null) {
+  const all: RTCStats[] = [];
+  report.forEach((s: RTCStats) => all.push(s));
+  const ofType = <T extends RTCStats>(type: RTCStatsType) => all.filter((s): s is T => s.type === type);
+  const byId = <T extends RTCStats>(id: string | undefined, type: RTCStatsType) => {
+    const s: RTCStats | undefined = id ? report.get(id) : undefined;
+    return s && s.type === type ? (s as T) : undefined;
+  };
+
+  // The pair in use: named by the transport, or (Firefox) flagged selected
+  const transport = ofType<RTCTransportStats>("transport").find((s) => s.selectedCandidatePairId);
+  const pair =
+    byId<CandidatePairStats>(transport?.selectedCandidatePairId, "candidate-pair") ??
+    ofType<CandidatePairStats>("candidate-pair").find((s) => s.selected || (s.nominated && s.state === "succeeded"));
+  const local = byId<IceCandidateStats>(pair?.localCandidateId, "local-candidate");
+  const remote = byId<IceCandidateStats>(pair?.remoteCandidateId, "remote-candidate");
+
+  const outbound = ofType<RTCOutboundRtpStreamStats>("outbound-rtp");
+  const inbound = ofType<RTCInboundRtpStreamStats>("inbound-rtp");
+  const remoteInbound = pick(ofType<RemoteInboundRtpStats>("remote-inbound-rtp"));
+  const sentVideo = outbound.find((s) => s.kind === "video");
+  const receivedVideo = inbound.find((s) => s.kind === "video");
+  const receivedMain = pick(inbound);
+
+  const counters: StatsCounters = {
+    at: Date.now(),
+    bytesSent: outbound.reduce((sum, s) => sum + (s.bytesSent ?? 0), 0),
+    bytesReceived: inbound.reduce((sum, s) => sum + (s.bytesReceived ?? 0), 0),
+    packetsReceived: receivedMain?.packetsReceived ?? 0,
+    packetsLost: receivedMain?.packetsLost ?? 0,
+  };
+
+  const seconds = prev ? (counters.at - prev.at) / 1000 : 0;
+  const kbps = (bytes: number) => (seconds > 0 ? Math.max(0, Math.round((bytes * 8) / seconds / 1000)) : null);
+  const lost = prev ? counters.packetsLost - prev.packetsLost : 0;
+  const expected = prev ? lost + counters.packetsReceived - prev.packetsReceived : 0;
+
+  const rttMs = ms(pair?.currentRoundTripTime) ?? ms(remoteInbound?.roundTripTime);
+  const sentLossPct = typeof remoteInbound?.fractionLost === "number" ? remoteInbound.fractionLost * 100 : null;
+  const sentJitterMs = ms(remoteInbound?.jitter);
+  const receivedLossPct = expected > 0 ? (Math.max(0, lost) / expected) * 100 : prev ? 0 : null;
+  const receivedJitterMs = ms(receivedMain?.jitter);
+
+  const stats: CallStats = {
+    rttMs,
+    localCandidate: local?.candidateType ?? null,
+    remoteCandidate: remote?.candidateType ?? null,
+    protocol: local?.protocol ?? null,
+    outbound: {
+      bitrateKbps: prev ? kbps(counters.bytesSent - prev.bytesSent) : null,
+      width: num(sentVideo?.frameWidth),
+      height: num(sentVideo?.frameHeight),
+      fps: num(sentVideo?.framesPerSecond),
+      packetLossPct: sentLossPct,
+      jitterMs: sentJitterMs,
+      quality: qualityOf(rttMs, sentLossPct, sentJitterMs),
+    },
+    inbound: {
+      bitrateKbps: prev ? kbps(counters.bytesReceived - prev.bytesReceived) : null,
+      width: num(receivedVideo?.frameWidth),
+      height: num(receivedVideo?.frameHeight),
+      fps: num(receivedVideo?.framesPerSecond),
+      packetLossPct: receivedLossPct,
+      jitterMs: receivedJitterMs,
+      quality: qualityOf(rttMs, receivedLossPct, receivedJitterMs),
+    },
+  };
+  return { stats, counters };
+}
@@ -1,6 +1,10 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
+import type { BlockedUser, QueueStatusPayload } from "@shared/events";
+import { readCallStats, type CallStats, type StatsCounters } from "./call-stats";
+
+const STATS_INTERVAL_MS = 2000;
 
 // ===== CUSTOM HOOKS =====
 export function useMediaState(audioOn?: boolean, videoOn?: boolean) {
@@ -33,8 +37,14 @@ export function useRoomState() {
   const [mySocketId, setMySocketId] = useState<string | null>(null);
   const [lobby, setLobby] = useState(true);
   const [status, setStatus] = useState<string>("Waiting to connect you to someone…");
+  const [queueStatus, setQueueStatus] = useState<QueueStatusPayload | null>(null);
   const [showTimeoutAlert, setShowTimeoutAlert] = useState(false);
   const [timeoutMessage, setTimeoutMessage] = useState("");
+  const [blocked, setBlocked] = useState<BlockedUser[]>([]);
+  // local time a skip cooldown ends (see queue:cooldown)
+  const [cooldownUntil, setCooldownUntil] = useState<number | null>(null);
+  // the call's media connection dropped and ICE is restarting
+  const [reconnecting, setReconnecting] = useState(false);
 
   return {
     showChat, setShowChat,
@@ -42,7 +52,72 @@ export function useRoomState() {
     mySocketId, setMySocketId,
     lobby, setLobby,
     status, setStatus,
+    queueStatus, setQueueStatus,
     showTimeoutAlert, setShowTimeoutAlert,
-    timeoutMessage, setTimeoutMessage
+    timeoutMessage, setTimeoutMessage,
+    blocked, setBlocked,
+    cooldownUntil, setCooldownUntil,
+    reconnecting, setReconnecting
   };
-}
\ No newline at end of file
+}
+// Whole seconds left until `until` (local ms timestamp), ticking down to 0
+export function useCountdown(until: number | null) {
+  const [, setTick] = useState(0);
+
+  useEffect(() => {
+    if (!until) return;
+    const timer = setInterval(() => {
+      setTick((t) => t + 1);
+      if (Date.now() >= until) clearInterval(timer);
+    }, 250);
+    return () => clearInterval(timer);
+  }, [until]);
+
+  return until ? Math.max(0, Math.ceil((until - Date.now()) / 1000)) : 0;
+}
+
+// Live quality of the call's peer connection, polled while `active`; null
+// until the first reading, and again once the connection is gone
+export function useCallStats(pcRef: React.RefObject<RTCPeerConnection | null>, active: boolean) {
+  const [stats, setStats] = useState<CallStats | null>(null);
+
+  useEffect(() => {
+    if (!active) {
+      setStats(null);
+      return;
+    }
+    let pc: RTCPeerConnection | null = null;
+    let prev: StatsCounters | null = null;
+    let cancelled = false;
+
+    const poll = async () => {
+      const current = pcRef.current;
+      if (current !== pc) {
+        // a new call (or a resume) started over: rates restart from scratch
+        pc = current;
+        prev = null;
+      }
+      if (!pc || pc.connectionState === "closed") {
+        setStats(null);
+        return;
+      }
+      try {
+        const { stats: next, counters } = readCallStats(await pc.getStats(), prev);
+        if (cancelled || pc !== pcRef.current) return;
+        prev = counters;
+        setStats(next);
+      } catch {
+        // the connection closed mid-read
+      }
+    };
+
+    poll();
+    const timer = setInterval(poll, STATS_INTERVAL_MS);
+    return () => {
+      cancelled = true;
+      clearInterval(timer);
+    };
+  }, [pcRef, active]);
+
+  return stats;
+}
@@ -1,6 +1,24 @@
 "use client";
 
 import { toast } from "sonner";
+import type { AppSocket } from "@/lib/socket";
+
+const ICE_SERVERS_TIMEOUT_MS = 3000;
+// Used when the server doesn't answer in time: STUN only, so users behind
+// symmetric NATs or strict firewalls may fail to connect
+const FALLBACK_ICE_SERVERS: RTCIceServer[] = [{ urls: "stun:stun.l.google.com:19302" }];
+
+// Ask the server for STUN/TURN servers before each peer connection; TURN
+// credentials are short-lived, so they are never reused across calls
+export async function fetchRtcConfig(socket: AppSocket): Promise<RTCConfiguration> {
+  try {
+    const res = await socket.timeout(ICE_SERVERS_TIMEOUT_MS).emitWithAck("ice:servers");
+    if (res.ok) return { iceServers: res.iceServers };
+  } catch {
+    // no answer in time
+  }
+  return { iceServers: FALLBACK_ICE_SERVERS };
+}
 
 // WebRTC Utility Functions
 export function ensureRemoteStream(
@@ -117,8 +135,7 @@ export function stopProvidedTracks(
 
 export function teardownPeers(
   reason: string,
-  sendingPcRef: React.RefObject<RTCPeerConnection | null>,
-  receivingPcRef: React.RefObject<RTCPeerConnection | null>,
+  pcRef: React.RefObject<RTCPeerConnection | null>,
   remoteStreamRef: React.RefObject<MediaStream | null>,
   remoteVideoRef: React.RefObject<HTMLVideoElement | null>,
   remoteAudioRef: React.RefObject<HTMLAudioElement | null>,
@@ -138,38 +155,28 @@ export function teardownPeers(
 ) {
   // console.log("Tearing down peers, reason:", reason);
   
-  // Clean up peer connections
+  // Clean up the peer connection
   try {
-    if (sendingPcRef.current) {
+    const pc = pcRef.current;
+    if (pc) {
+      // no renegotiation for the removals below
+      pc.onnegotiationneeded = null;
       try {
-        sendingPcRef.current.getSenders().forEach((sn) => {
+        pc.getSenders().forEach((sn) => {
           try {
-            sendingPcRef.current?.removeTrack(sn);
+            pc.removeTrack(sn);
           } catch (err) {
             // console.error("Error removing sender track:", err);
           }
         });
       } catch {}
-      sendingPcRef.current.close();
-    }
-    if (receivingPcRef.current) {
-      try {
-        receivingPcRef.current.getSenders().forEach((sn) => {
-          try {
-            receivingPcRef.current?.removeTrack(sn);
-          } catch (err) {
-            // console.error("Error removing receiver track:", err);
-          }
-        });
-      } catch {}
-      receivingPcRef.current.close();
+      pc.close();
     }
   } catch (err) {
     // console.error("Error in peer connection cleanup:", err);
   }
   
-  sendingPcRef.current = null;
-  receivingPcRef.current = null;
+  pcRef.current = null;
 
   // Clean up remote stream
   if (remoteStreamRef.current) {
@@ -241,17 +248,14 @@ export async function toggleCameraTrack(
   currentVideoTrackRef: React.RefObject<MediaStreamTrack | null>,
   localVideoRef: React.RefObject<HTMLVideoElement | null>,
   videoSenderRef: React.RefObject<RTCRtpSender | null>,
-  sendingPcRef: React.RefObject<RTCPeerConnection | null>,
-  receivingPcRef: React.RefObject<RTCPeerConnection | null>,
-  roomId: string | null,
-  socketRef: React.RefObject<any>,
+  pcRef: React.RefObject<RTCPeerConnection | null>,
   localVideoTrack: MediaStreamTrack | null
 ) {
   const turningOn = !camOn;
   setCamOn(turningOn);
 
   try {
-    const pc = sendingPcRef.current || receivingPcRef.current;
+    const pc = pcRef.current;
 
     if (turningOn) {
       let track = currentVideoTrackRef.current;
@@ -272,20 +276,8 @@ export async function toggleCameraTrack(
       if (videoSenderRef.current) {
         await videoSenderRef.current.replaceTrack(track);
       } else if (pc) {
-        const sender = pc.addTrack(track);
-        videoSenderRef.current = sender;
-        // console.log("Added new video track to existing connection");
-        
-        if (sendingPcRef.current === pc) {
-          const offer = await pc.createOffer();
-          await pc.setLocalDescription(offer);
-          socketRef.current?.emit("renegotiate-offer", { 
-            roomId, 
-            sdp: offer, 
-            role: "caller" 
-          });
-          // console.log("📤 Sent renegotiation offer for camera turn on");
-        }
+        // the call started without video; the connection renegotiates itself
+        videoSenderRef.current = pc.addTrack(track);
       }
     } else {
       if (videoSenderRef.current) {
@@ -0,0 +1,70 @@
+import type {
+  Ban,
+  NewBanRequest,
+  Report,
+  ReportAction,
+  ReportFilter,
+  ReportSummary,
+} from "@shared/admin";
+
+const URL = process.env.NEXT_PUBLIC_BACKEND_URI || "http://localhost:5001";
+
+export class AdminApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+  }
+}
+
+async function request<T>(token: string, path: string, init: RequestInit = {}): Promise<T> {
+  const res = await fetch(`${URL}/admin${path}`, {
+    ...init,
+    headers: {
+      authorization: `Bearer ${token}`,
+      ...(init.body ? { "content-type": "application/json" } : {}),
+    },
+  });
+  if (res.status === 204) return undefined as T;
+
+  const body = await res.json().catch(() => ({}));
+  if (!res.ok) throw new AdminApiError(res.status, body?.message || res.statusText);
+  return body as T;
+}
+
+export async function listReports(token: string, filter: ReportFilter = {}) {
+  const qs = new URLSearchParams();
+  for (const [k, v] of Object.entries(filter)) {
+    if (v !== undefined && v !== "") qs.set(k, String(v));
+  }
+  const { reports } = await request<{ reports: ReportSummary[] }>(token, `/reports?${qs}`);
+  return reports;
+}
+
+export async function getReport(token: string, id: string) {
+  const { report } = await request<{ report: Report }>(token, `/reports/${encodeURIComponent(id)}`);
+  return report;
+}
+
+export async function resolveReport(token: string, id: string, action: ReportAction, note?: string) {
+  const { report } = await request<{ report: Report }>(token, `/reports/${encodeURIComponent(id)}/resolve`, {
+    method: "POST",
+    body: JSON.stringify({ action, note }),
+  });
+  return report;
+}
+
+export async function listBans(token: string) {
+  const { bans } = await request<{ bans: Ban[] }>(token, "/bans");
+  return bans;
+}
+
+export async function createBan(token: string, ban: NewBanRequest) {
+  const res = await request<{ ban: Ban }>(token, "/bans", {
+    method: "POST",
+    body: JSON.stringify(ban),
+  });
+  return res.ban;
+}
+
+export async function liftBan(token: string, id: string) {
+  await request<void>(token, `/bans/${encodeURIComponent(id)}`, { method: "DELETE" });
+}
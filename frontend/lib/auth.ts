@@ -0,0 +1,10 @@
+// Sign-in is offered when the Clerk publishable key is configured; without it
+// everyone joins as a guest (the backend decides whether guests are allowed).
+export const clerkEnabled = !!process.env.NEXT_PUBLIC_CLERK_PUBLISHABLE_KEY;
+
+// What the rest of the app needs to know about the signed-in account
+export interface Account {
+  displayName: string | null;
+  // Fresh Clerk session token for the socket handshake
+  getToken: () => Promise<string | null>;
+}
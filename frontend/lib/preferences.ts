@@ -0,0 +1,50 @@
+import type { MatchPreferences, SkillBucket } from "@shared/events";
+
+export const LANGUAGES: { value: string; label: string }[] = [
+  { value: "en", label: "English" },
+  { value: "es", label: "Spanish" },
+  { value: "fr", label: "French" },
+  { value: "de", label: "German" },
+  { value: "pt", label: "Portuguese" },
+  { value: "hi", label: "Hindi" },
+  { value: "zh", label: "Chinese" },
+  { value: "ja", label: "Japanese" },
+  { value: "ar", label: "Arabic" },
+  { value: "ru", label: "Russian" },
+];
+
+export const INDUSTRIES: { value: string; label: string }[] = [
+  { value: "software", label: "Software & IT" },
+  { value: "design", label: "Design" },
+  { value: "data", label: "Data & AI" },
+  { value: "product", label: "Product" },
+  { value: "marketing", label: "Marketing" },
+  { value: "finance", label: "Finance" },
+  { value: "healthcare", label: "Healthcare" },
+  { value: "education", label: "Education" },
+  { value: "student", label: "Student" },
+];
+
+export const SKILL_LEVELS: { value: SkillBucket; label: string }[] = [
+  { value: "beginner", label: "Beginner" },
+  { value: "intermediate", label: "Intermediate" },
+  { value: "advanced", label: "Advanced" },
+];
+
+const STORAGE_KEY = "helixque-preferences";
+
+// Remembered between visits so returning users can join in one click
+export function loadPreferences(): MatchPreferences {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    return raw ? (JSON.parse(raw) as MatchPreferences) : {};
+  } catch {
+    return {};
+  }
+}
+
+export function savePreferences(prefs: MatchPreferences) {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(prefs));
+  } catch {}
+}
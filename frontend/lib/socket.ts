@@ -0,0 +1,14 @@
+import type { Socket } from "socket.io-client";
+import { toast } from "sonner";
+import type { AckResponse, ClientToServerEvents, ServerToClientEvents } from "@shared/events";
+
+// Client socket typed against the backend's shared event contract
+export type AppSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+// Ack callback that surfaces a server-side rejection as an error toast
+export function toastOnAckError(title: string) {
+  return (res: AckResponse) => {
+    if (res.ok) return;
+    toast.error(title, { id: `ack-${res.error.code}-${title}`, description: res.error.message });
+  };
+}